@@ -47,11 +47,20 @@ SPELLBOOK (OPTIONS):
   --schemas <list>    🎯 Target schema realms, comma-separated
   --out <directory>   📁 Output sanctum (default: ./tables/)
   --roles <list>      🔐 Filter by magical roles, comma-separated
-  --scope <type>      🎯 Export scope: tables, functions, views, materialized-views, or all (default: all)
+  --scope <type>      🎯 Export scope: tables, functions, views, materialized-views, sequences, types, schemas, or all (default: all)
   --include-date      📅 Include generation date in file headers
   --no-date          🚫 Exclude date from headers (default)
   --clean            🧹 Clean output directory before export (default)
   --no-clean         🚫 Keep existing files in output directory
+  --materialized-view-ddl 🏗️  Export executable materialized view DDL (DROP + CREATE)
+  --drop-functions   🧨 Emit DROP FUNCTION IF EXISTS before each function definition
+  --partitions <mode> 🧩 Export partition children: none, inline, or folder (default: none)
+  --include-trigger-functions 🔗 Also export trigger functions from unlisted schemas
+  --map-role-expressions 🎭 Also map current_user = 'role' comparisons in policies
+  --schema-mappings <list> 🔀 Rename schemas on export, e.g. app_public=tenant_42,app_private=tenant_42_private
+  --placeholder-style <style> 🏷️  Role placeholder syntax: graphile, flyway, psql, sqitch, dbmate or a {name} template
+  --rehydrate <dir>  💧 Replace role placeholders in the snapshots in --out, write to <dir>
+  --role-captures <list> 🧬 Values for pattern role_mappings wildcards when rehydrating
   --silent           🤫 Silent mode - minimal output for automation
   --help, -h         ❓ Show this magical help
   --version, -v      ℹ️  Show version of the wizard
@@ -83,7 +92,7 @@ MAGIC FEATURES:
   🧹 Idempotent Scripts - Safe cleanup and recreation sections
   ⚡ Multi-Schema Export - Organized folder structure
   🔮 Function Export - Export stored procedures and functions with GRANT EXECUTE
-  📊 Flexible Scope - Export tables, functions, views, materialized-views, or all
+  📊 Flexible Scope - Export tables, functions, views, materialized-views, sequences, types, schemas, or all
 
 For more wizardry: https://github.com/your-repo/tablerizer
 `);
@@ -152,12 +161,15 @@ export function parseCliArgs(): Partial<CliArgs> {
           next === "functions" ||
           next === "views" ||
           next === "materialized-views" ||
+          next === "sequences" ||
+          next === "types" ||
+          next === "schemas" ||
           next === "all"
         ) {
           result.scope = next;
         } else {
           console.error(
-            "❌ Invalid scope. Must be: tables, functions, views, materialized-views, or all"
+            "❌ Invalid scope. Must be: tables, functions, views, materialized-views, sequences, types, schemas, or all"
           );
           process.exit(1);
         }
@@ -178,6 +190,54 @@ export function parseCliArgs(): Partial<CliArgs> {
       case "--silent":
         result.silent = true;
         break;
+      case "--materialized-view-ddl":
+        result.materialized_view_ddl = true;
+        break;
+      case "--drop-functions":
+        result.drop_functions = true;
+        break;
+      case "--include-trigger-functions":
+        result.include_trigger_functions = true;
+        break;
+      case "--map-role-expressions":
+        result.map_role_expressions = true;
+        break;
+      case "--role-captures":
+        result.role_mapping_captures = next.split(",").map((c) => c.trim());
+        i++;
+        break;
+      case "--schema-mappings":
+        for (const pair of next.split(",")) {
+          const [from, to] = pair.split("=").map((part) => part.trim());
+          if (!from || !to) {
+            console.error(
+              "❌ Invalid schema mapping. Expected source=target pairs, e.g. app_public=tenant_42"
+            );
+            process.exit(1);
+          }
+          result.schema_mappings = { ...result.schema_mappings, [from]: to };
+        }
+        i++;
+        break;
+      case "--placeholder-style":
+        result.placeholder_style = next;
+        i++;
+        break;
+      case "--rehydrate":
+        result.rehydrate = next;
+        i++;
+        break;
+      case "--partitions":
+        if (next === "none" || next === "inline" || next === "folder") {
+          result.partitions = next;
+        } else {
+          console.error(
+            "❌ Invalid partitions mode. Must be: none, inline, or folder"
+          );
+          process.exit(1);
+        }
+        i++;
+        break;
       case "--config":
         // Config file path is handled separately
         i++;
@@ -210,6 +270,7 @@ export function displayConfigSummary(config: {
   out?: string;
   roles?: string[];
   role_mappings?: Record<string, string>;
+  schema_mappings?: Record<string, string>;
   scope?: string | string[];
   silent?: boolean;
 }): void {
@@ -237,6 +298,13 @@ export function displayConfigSummary(config: {
     console.log(`🔐 Including all roles (full power!)`);
   }
 
+  if (config.schema_mappings && Object.keys(config.schema_mappings).length > 0) {
+    console.log(`🔀 Schema relocation spells:`);
+    for (const [from, to] of Object.entries(config.schema_mappings)) {
+      console.log(`   ✨ ${from} → ${to}`);
+    }
+  }
+
   if (config.role_mappings && Object.keys(config.role_mappings).length > 0) {
     console.log(`🎭 Role transformation spells:`);
     for (const [from, to] of Object.entries(config.role_mappings)) {
@@ -253,6 +321,12 @@ export function displayCompletionSummary(summary: {
   totalFiles: number;
   tableFiles?: number;
   functionFiles?: number;
+  viewFiles?: number;
+  materializedViewFiles?: number;
+  sequenceFiles?: number;
+  typeFiles?: number;
+  schemaFiles?: number;
+  partitionFiles?: number;
   outputPath: string;
   roleMappings?: Record<string, string>;
   silent?: boolean;
@@ -276,6 +350,26 @@ export function displayCompletionSummary(summary: {
   if (summary.functionFiles !== undefined) {
     console.log(`   • Function files: ${summary.functionFiles}`);
   }
+  if (summary.viewFiles !== undefined) {
+    console.log(`   • View files: ${summary.viewFiles}`);
+  }
+  if (summary.materializedViewFiles !== undefined) {
+    console.log(
+      `   • Materialized view files: ${summary.materializedViewFiles}`
+    );
+  }
+  if (summary.sequenceFiles !== undefined) {
+    console.log(`   • Sequence files: ${summary.sequenceFiles}`);
+  }
+  if (summary.typeFiles !== undefined) {
+    console.log(`   • Type files: ${summary.typeFiles}`);
+  }
+  if (summary.schemaFiles !== undefined) {
+    console.log(`   • Schema files: ${summary.schemaFiles}`);
+  }
+  if (summary.partitionFiles !== undefined) {
+    console.log(`   • Partition files: ${summary.partitionFiles}`);
+  }
 
   console.log(`   • Output location: ${summary.outputPath}`);
 
@@ -355,6 +449,17 @@ export async function runCLI(): Promise<void> {
       showBanner();
     }
 
+    // Reverse mode: no database, only rewrite existing snapshots
+    if (cliArgs.rehydrate) {
+      const result = await new Tablerizer(config).rehydrate(cliArgs.rehydrate);
+      console.log(
+        config.silent
+          ? `Rehydrated ${result.totalFiles} files.`
+          : `💧 Rehydrated ${result.totalFiles} files from ${result.sourcePath} into ${result.outputPath}`
+      );
+      return;
+    }
+
     // Display configuration summary
     displayConfigSummary(config);
     displayConnectionStatus(true, config.silent);
@@ -386,6 +491,12 @@ export async function runCLI(): Promise<void> {
       totalFiles: result.totalFiles,
       tableFiles: result.tableFiles,
       functionFiles: result.functionFiles,
+      viewFiles: result.viewFiles,
+      materializedViewFiles: result.materializedViewFiles,
+      sequenceFiles: result.sequenceFiles,
+      typeFiles: result.typeFiles,
+      schemaFiles: result.schemaFiles,
+      partitionFiles: result.partitionFiles,
       outputPath: result.outputPath,
       roleMappings: config.role_mappings,
       silent: config.silent,
@@ -4,6 +4,11 @@
 
 import fs from "fs";
 import path from "path";
+import {
+  compileRoleMappings,
+  resolvePlaceholderStyle,
+} from "./generators/role-mappings.js";
+import type { PlaceholderStyle } from "./generators/role-mappings.js";
 
 export interface Config {
   schemas?: string[];
@@ -15,6 +20,14 @@ export interface Config {
   include_date?: boolean;
   clean?: boolean;
   silent?: boolean;
+  materialized_view_ddl?: boolean;
+  drop_functions?: boolean;
+  partitions?: PartitionMode;
+  include_trigger_functions?: boolean;
+  map_role_expressions?: boolean;
+  role_mapping_captures?: string[];
+  placeholder_style?: PlaceholderStyle;
+  schema_mappings?: Record<string, string>;
 }
 
 export type ExportScope =
@@ -22,18 +35,53 @@ export type ExportScope =
   | "functions"
   | "views"
   | "materialized-views"
+  | "sequences"
+  | "types"
+  | "schemas"
   | "all";
 
+/**
+ * Where partition children are written:
+ *   none   - only the partitioned parent (default)
+ *   inline - PARTITION OF statements in the parent's table file
+ *   folder - one snapshot per partition in <schema>/partitions/
+ */
+export type PartitionMode = "none" | "inline" | "folder";
+
 export interface TablerizerOptions {
   schemas: string[];
   out?: string;
   roles?: string[];
   database_url?: string;
+  /**
+   * Role name -> placeholder. Keys starting with ^ or ending with $ are regular
+   * expressions and keys with * or ? are globs; their placeholders may use $1, $2, ...
+   */
   role_mappings?: Record<string, string>;
   scope?: ExportScope | ExportScope[];
   include_date?: boolean;
   clean?: boolean;
   silent?: boolean;
+  /** Emit executable DROP/CREATE MATERIALIZED VIEW DDL instead of a documentation block */
+  materialized_view_ddl?: boolean;
+  /** Emit DROP FUNCTION IF EXISTS before CREATE OR REPLACE in function snapshots */
+  drop_functions?: boolean;
+  /** Export partition children inline in the parent file or in a partitions/ folder */
+  partitions?: PartitionMode;
+  /** Also export trigger functions that live in schemas outside `schemas` */
+  include_trigger_functions?: boolean;
+  /** Also map roles compared with current_user = 'role' inside policy expressions */
+  map_role_expressions?: boolean;
+  /** Values for the wildcards / capture groups of pattern role_mappings when reversing */
+  role_mapping_captures?: string[];
+  /**
+   * Placeholder syntax for mapped roles: graphile (:NAME), flyway (${name}),
+   * psql / sqitch (:"name"), dbmate (${name}) or a template with {name}.
+   * Unset writes role_mappings values verbatim.
+   */
+  placeholder_style?: PlaceholderStyle;
+  /** Source schema -> target schema, rewritten in every statement and in the output folders */
+  schema_mappings?: Record<string, string>;
 }
 
 export interface CliArgs {
@@ -46,6 +94,16 @@ export interface CliArgs {
   clean?: boolean;
   include_date?: boolean;
   silent?: boolean;
+  materialized_view_ddl?: boolean;
+  drop_functions?: boolean;
+  partitions?: PartitionMode;
+  include_trigger_functions?: boolean;
+  map_role_expressions?: boolean;
+  role_mapping_captures?: string[];
+  placeholder_style?: PlaceholderStyle;
+  schema_mappings?: Record<string, string>;
+  /** CLI only: rehydrate the snapshots in `out` into this directory instead of exporting */
+  rehydrate?: string;
 }
 
 /**
@@ -88,7 +146,7 @@ function expandEnvVars(value: string): string {
 
 /**
  * Recursively expand environment variables in config object
- * Special handling for role_mappings to expand variables in keys
+ * Special handling for role_mappings and schema_mappings to expand variables in keys
  */
 function expandConfigEnvVars(obj: any, parentKey?: string): any {
   if (typeof obj === "string") {
@@ -102,8 +160,8 @@ function expandConfigEnvVars(obj: any, parentKey?: string): any {
   if (obj && typeof obj === "object") {
     const expanded: any = {};
     
-    // Special handling for role_mappings: expand env vars in both keys and values
-    if (parentKey === "role_mappings") {
+    // Special handling for role_mappings and schema_mappings: expand env vars in both keys and values
+    if (parentKey === "role_mappings" || parentKey === "schema_mappings") {
       for (const [key, value] of Object.entries(obj)) {
         const expandedKey = expandEnvVars(key);
         const expandedValue = expandConfigEnvVars(value);
@@ -164,6 +222,14 @@ export function resolveConfig(
     role_mappings: config.role_mappings || {},
     scope: config.scope || "all",
     include_date: config.include_date,
+    materialized_view_ddl: config.materialized_view_ddl,
+    drop_functions: config.drop_functions,
+    partitions: config.partitions,
+    include_trigger_functions: config.include_trigger_functions,
+    map_role_expressions: config.map_role_expressions,
+    role_mapping_captures: config.role_mapping_captures,
+    placeholder_style: config.placeholder_style,
+    schema_mappings: config.schema_mappings || {},
   };
 
   // Override with environment variables
@@ -199,12 +265,42 @@ export function resolveConfig(
       ...cliArgs.role_mappings,
     };
   }
+  if (
+    cliArgs.schema_mappings &&
+    Object.keys(cliArgs.schema_mappings).length > 0
+  ) {
+    resolved.schema_mappings = {
+      ...resolved.schema_mappings,
+      ...cliArgs.schema_mappings,
+    };
+  }
   if (cliArgs.scope) {
     resolved.scope = cliArgs.scope;
   }
   if (cliArgs.include_date !== undefined) {
     resolved.include_date = cliArgs.include_date;
   }
+  if (cliArgs.materialized_view_ddl !== undefined) {
+    resolved.materialized_view_ddl = cliArgs.materialized_view_ddl;
+  }
+  if (cliArgs.drop_functions !== undefined) {
+    resolved.drop_functions = cliArgs.drop_functions;
+  }
+  if (cliArgs.partitions !== undefined) {
+    resolved.partitions = cliArgs.partitions;
+  }
+  if (cliArgs.include_trigger_functions !== undefined) {
+    resolved.include_trigger_functions = cliArgs.include_trigger_functions;
+  }
+  if (cliArgs.map_role_expressions !== undefined) {
+    resolved.map_role_expressions = cliArgs.map_role_expressions;
+  }
+  if (cliArgs.role_mapping_captures !== undefined) {
+    resolved.role_mapping_captures = cliArgs.role_mapping_captures;
+  }
+  if (cliArgs.placeholder_style !== undefined) {
+    resolved.placeholder_style = cliArgs.placeholder_style;
+  }
 
   return resolved;
 }
@@ -227,6 +323,19 @@ export function validateConfig(config: TablerizerOptions): void {
       throw new Error("Schema names cannot be empty");
     }
   }
+
+  // Throws on role_mappings keys that are not valid regular expressions
+  compileRoleMappings(config.role_mappings || {});
+
+  if (config.placeholder_style !== undefined) {
+    resolvePlaceholderStyle(config.placeholder_style);
+  }
+
+  for (const [from, to] of Object.entries(config.schema_mappings || {})) {
+    if (!to || to.trim().length === 0) {
+      throw new Error(`Schema mapping for "${from}" cannot be empty`);
+    }
+  }
 }
 
 /**
@@ -243,6 +352,14 @@ export function getDefaultConfig(): TablerizerOptions {
     include_date: false, // Default: no date in headers
     clean: true, // Default: clean output directory before export
     silent: false, // Default: verbose output
+    materialized_view_ddl: false, // Default: documentation block only
+    drop_functions: false, // Default: rely on CREATE OR REPLACE
+    partitions: "none", // Default: partitioned parents only
+    include_trigger_functions: false, // Default: only functions in listed schemas
+    map_role_expressions: false, // Default: expressions are exported verbatim
+    role_mapping_captures: [],
+    placeholder_style: undefined, // Default: role_mappings values written verbatim
+    schema_mappings: {},
   };
 }
 
@@ -267,5 +384,26 @@ export function mergeConfigs(
     clean: override.clean !== undefined ? override.clean : base.clean ?? true, // Default: clean output directory
     silent:
       override.silent !== undefined ? override.silent : base.silent ?? false, // Default: verbose output
+    materialized_view_ddl:
+      override.materialized_view_ddl !== undefined
+        ? override.materialized_view_ddl
+        : base.materialized_view_ddl ?? false, // Default: documentation block only
+    drop_functions:
+      override.drop_functions !== undefined
+        ? override.drop_functions
+        : base.drop_functions ?? false, // Default: rely on CREATE OR REPLACE
+    partitions: override.partitions ?? base.partitions ?? "none", // Default: partitioned parents only
+    include_trigger_functions:
+      override.include_trigger_functions !== undefined
+        ? override.include_trigger_functions
+        : base.include_trigger_functions ?? false, // Default: only functions in listed schemas
+    map_role_expressions:
+      override.map_role_expressions !== undefined
+        ? override.map_role_expressions
+        : base.map_role_expressions ?? false, // Default: expressions are exported verbatim
+    role_mapping_captures:
+      override.role_mapping_captures ?? base.role_mapping_captures ?? [],
+    placeholder_style: override.placeholder_style ?? base.placeholder_style,
+    schema_mappings: { ...base.schema_mappings, ...override.schema_mappings },
   };
 }
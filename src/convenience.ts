@@ -23,17 +23,24 @@ export async function exportTables(
 }
 
 /**
- * Convenience function to export a single function
+ * Convenience function to export a single function.
+ * Pass a signature (e.g. "integer, text") to pick one overload.
  */
 export async function exportFunction(
   schema: string,
   functionName: string,
   options: TablerizerOptions,
-  outputPath?: string
+  outputPath?: string,
+  signature?: string
 ): Promise<string> {
   const tablerizer = new Tablerizer(options);
   try {
-    return await tablerizer.exportFunction(schema, functionName, outputPath);
+    return await tablerizer.exportFunction(
+      schema,
+      functionName,
+      outputPath,
+      signature
+    );
   } finally {
     await tablerizer.disconnect();
   }
@@ -82,18 +82,33 @@ export interface TriggerInfo {
 }
 
 export interface FunctionInfo {
+  oid: number;
   schema_name: string;
   function_name: string;
+  /** Identity arguments (pg_get_function_identity_arguments), e.g. "a integer, b text" */
   function_signature: string;
+  /** Identity argument types only (oidvectortypes of proargtypes), e.g. "integer, text" */
+  argument_types: string;
   function_definition: string;
   return_type: string;
   language: string;
-  volatility: string;
+  volatility: string; // IMMUTABLE, STABLE or VOLATILE
   security_definer: boolean;
   function_arguments: string;
   function_type: string;
   is_security_definer: boolean;
   comment: string | null;
+  /** True when PUBLIC holds EXECUTE (the default when proacl is NULL) */
+  public_execute: boolean;
+  owner: string;
+  is_strict: boolean;
+  is_leakproof: boolean;
+  parallel: string; // SAFE, RESTRICTED or UNSAFE
+  cost: number;
+  /** Estimated result rows (0 unless the function returns a set) */
+  rows: number;
+  /** pg_proc.proconfig, e.g. search_path=app_public, pg_temp */
+  config: string[] | null;
 }
 
 export interface ConstraintInfo {
@@ -117,6 +132,31 @@ export interface ColumnDefinition {
   column_default: string | null;
   comment: string | null;
   ordinal_position: number;
+  /** attidentity: 'a' = GENERATED ALWAYS, 'd' = BY DEFAULT, '' or absent = not an identity */
+  identity?: string;
+  /** Options of the implicit identity sequence */
+  identity_sequence?: {
+    sequence_schema: string;
+    sequence_name: string;
+    start_value: string;
+    increment_by: string;
+    min_value: string;
+    max_value: string;
+    cache_size: string;
+    cycle: boolean;
+  } | null;
+  /** attgenerated: 's' = STORED, 'v' = VIRTUAL (column_default holds the generation expression) */
+  generated?: string;
+  /** Collation when it differs from the type's default, e.g. pg_catalog."C" */
+  collation?: string | null;
+  /** Explicit compression method (pglz, lz4), null for the default */
+  compression?: string | null;
+  /** Storage mode when it differs from the type's default (PLAIN, EXTERNAL, MAIN, EXTENDED) */
+  storage?: string | null;
+  /** attstattarget when explicitly set */
+  statistics?: number | null;
+  /** attislocal: false when the column exists only because of INHERITS */
+  is_local?: boolean;
 }
 
 /**
@@ -124,8 +164,16 @@ export interface ColumnDefinition {
  */
 export interface ConstraintDefinition {
   constraint_name: string;
-  constraint_type: string; // 'p' = PK, 'u' = UNIQUE, 'f' = FK, 'c' = CHECK, 'x' = EXCLUSION
+  constraint_type: string; // 'p' = PK, 'u' = UNIQUE, 'f' = FK, 'c' = CHECK, 'x' = EXCLUSION, 'n' = NOT NULL
   definition: string;
+  /** conislocal: false when the constraint only exists through inheritance */
+  is_local?: boolean;
+  /** coninhcount: number of parents the constraint is inherited from */
+  inherit_count?: number;
+  /** convalidated: false for NOT VALID constraints */
+  validated?: boolean;
+  /** Foreign keys only: whether an index leads with the referencing columns */
+  fk_indexed?: boolean | null;
 }
 
 /**
@@ -137,6 +185,39 @@ export interface IndexDefinition {
   comment: string | null;
 }
 
+/**
+ * Sequence owned by a table column (ALTER SEQUENCE ... OWNED BY), identity
+ * sequences excluded
+ */
+export interface OwnedSequenceInfo {
+  sequence_schema: string;
+  sequence_name: string;
+  column_name: string;
+}
+
+/**
+ * Rewrite rule from pg_rewrite (view _RETURN rules excluded)
+ */
+export interface RuleInfo {
+  rule_name: string;
+  /** pg_get_ruledef(), a complete CREATE RULE statement */
+  definition: string;
+  enabled: string; // ev_enabled: 'O' = origin, 'D' = disabled, 'R' = replica, 'A' = always
+}
+
+/**
+ * Extended statistics object from pg_statistic_ext
+ */
+export interface StatisticsInfo {
+  statistics_schema: string;
+  statistics_name: string;
+  /** pg_get_statisticsobjdef(), e.g. CREATE STATISTICS s.st (ndistinct) ON a, b FROM s.t */
+  definition: string;
+  /** stxstattarget when explicitly set */
+  statistics_target: number | null;
+  comment: string | null;
+}
+
 /**
  * Table partition info
  */
@@ -145,6 +226,72 @@ export interface PartitionInfo {
   partition_key: string;
 }
 
+/**
+ * Parent of a partition (CREATE TABLE ... PARTITION OF parent FOR VALUES ...)
+ */
+export interface PartitionParentInfo {
+  parent_schema: string;
+  parent_table: string;
+  /** pg_get_expr(relpartbound), e.g. "FOR VALUES FROM ('2024-01-01') TO ('2025-01-01')" or "DEFAULT" */
+  bound: string;
+}
+
+/**
+ * Partition in the tree below a partitioned table
+ */
+export interface PartitionChildInfo extends PartitionParentInfo {
+  schema_name: string;
+  table_name: string;
+  /** PARTITION BY clause when the partition is itself partitioned */
+  partition_key: string | null;
+  /** Depth below the root partitioned table (1 = direct child) */
+  level: number;
+}
+
+/**
+ * Table inheritance (INHERITS) and typed table (OF type) info
+ */
+export interface TableInheritanceInfo {
+  /** Qualified parent tables in inhseqno order (partition parents excluded) */
+  inherits: string[];
+  /** Composite type of a typed table (pg_class.reloftype), null otherwise */
+  of_type: string | null;
+}
+
+/**
+ * Table storage settings from pg_class
+ */
+export interface TableStorageInfo {
+  persistence: string; // 'p' = permanent, 'u' = unlogged
+  /** pg_class.reloptions, e.g. fillfactor=70, autovacuum_enabled=false */
+  options: string[] | null;
+  /** Tablespace, null for the database default */
+  tablespace: string | null;
+  /** Table access method, null for the default heap */
+  access_method: string | null;
+  replica_identity: string; // 'd' = default, 'n' = nothing, 'f' = full, 'i' = index
+  /** Index used by REPLICA IDENTITY USING INDEX */
+  replica_identity_index: string | null;
+}
+
+export interface SchemaInfo {
+  schema_name: string;
+  owner: string;
+  comment: string | null;
+}
+
+/**
+ * Schema-scoped default privilege from pg_default_acl
+ */
+export interface DefaultPrivilegeInfo {
+  role: string; // FOR ROLE (pg_default_acl.defaclrole)
+  object_type: string; // 'r' = tables, 'S' = sequences, 'f' = functions, 'T' = types
+  grantor: string;
+  grantee: string;
+  privilege: string;
+  is_grantable: boolean;
+}
+
 export interface ViewInfo {
   schema_name: string;
   view_name: string;
@@ -152,6 +299,56 @@ export interface ViewInfo {
   owner: string;
   comment: string | null;
   is_updatable: boolean;
+  /** pg_class.reloptions, e.g. security_invoker=true, check_option=local */
+  options: string[] | null;
+}
+
+export interface SequenceInfo {
+  schema_name: string;
+  sequence_name: string;
+  data_type: string;
+  start_value: string;
+  increment_by: string;
+  min_value: string;
+  max_value: string;
+  cache_size: string;
+  cycle: boolean;
+  owner: string;
+  comment: string | null;
+  /** Column owning the sequence (ALTER SEQUENCE ... OWNED BY), null if none */
+  owned_by_schema: string | null;
+  owned_by_table: string | null;
+  owned_by_column: string | null;
+}
+
+export interface TypeInfo {
+  schema_name: string;
+  type_name: string;
+  type_kind: string; // 'e' = enum, 'c' = composite, 'd' = domain, 'r' = range
+  owner: string;
+  comment: string | null;
+  /** Enum labels in enumsortorder */
+  enum_labels: string[] | null;
+  /** Composite type attributes in attnum order */
+  attributes: Array<{
+    name: string;
+    data_type: string;
+    collation: string | null;
+  }> | null;
+  /** Domain base type, collation (also a range's), default, NOT NULL and CHECK constraints */
+  base_type: string | null;
+  collation: string | null;
+  default_value: string | null;
+  not_null: boolean;
+  constraints: Array<{
+    name: string;
+    definition: string;
+  }> | null;
+  /** Range subtype and optional support functions */
+  range_subtype: string | null;
+  range_subtype_opclass: string | null;
+  range_canonical: string | null;
+  range_subtype_diff: string | null;
 }
 
 export interface MaterializedViewInfo {
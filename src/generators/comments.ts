@@ -1,5 +1,5 @@
 import type { ColumnDefinition, IndexDefinition } from "../database.js";
-import { escapeIdent } from "./utils.js";
+import { escapeIdent, escapeQualifiedIdent, escapeComment } from "./utils.js";
 
 /**
  * Generate COMMENT ON TABLE and COMMENT ON COLUMN statements.
@@ -14,11 +14,9 @@ export function generateCommentsSQL(
   const sqlStatements: string[] = [];
 
   if (tableComment) {
-    const escapedComment = tableComment.includes("'")
-      ? `$$${tableComment}$$`
-      : `'${tableComment}'`;
+    const escapedComment = escapeComment(tableComment);
     sqlStatements.push(
-      `COMMENT ON TABLE ${schema}.${tableName} IS ${escapedComment};`,
+      `COMMENT ON TABLE ${escapeQualifiedIdent(schema, tableName)} IS ${escapedComment};`,
     );
   }
 
@@ -28,11 +26,9 @@ export function generateCommentsSQL(
     .sort((a, b) => a.ordinal_position - b.ordinal_position);
 
   for (const col of columnsWithComments) {
-    const escapedComment = col.comment!.includes("'")
-      ? `$$${col.comment}$$`
-      : `'${col.comment}'`;
+    const escapedComment = escapeComment(col.comment!);
     sqlStatements.push(
-      `COMMENT ON COLUMN ${schema}.${tableName}.${escapeIdent(col.column_name)} IS ${escapedComment};`,
+      `COMMENT ON COLUMN ${escapeQualifiedIdent(schema, tableName)}.${escapeIdent(col.column_name)} IS ${escapedComment};`,
     );
   }
 
@@ -53,11 +49,9 @@ export function generateIndexCommentsSQL(
     .sort((a, b) => a.index_name.localeCompare(b.index_name));
 
   for (const idx of indexesWithComments) {
-    const escapedComment = idx.comment!.includes("'")
-      ? `$$${idx.comment}$$`
-      : `'${idx.comment}'`;
+    const escapedComment = escapeComment(idx.comment!);
     sqlStatements.push(
-      `COMMENT ON INDEX ${schema}.${escapeIdent(idx.index_name)} IS ${escapedComment};`,
+      `COMMENT ON INDEX ${escapeQualifiedIdent(schema, idx.index_name)} IS ${escapedComment};`,
     );
   }
 
@@ -1,5 +1,5 @@
 import type { ConstraintDefinition } from "../database.js";
-import { escapeIdent } from "./utils.js";
+import { escapeIdent, escapeQualifiedIdent } from "./utils.js";
 
 /**
  * Generate idempotent constraint statements:
@@ -7,7 +7,10 @@ import { escapeIdent } from "./utils.js";
  *   ALTER TABLE ... ADD CONSTRAINT ... <definition>;
  *
  * Sorted by type (PK, UNIQUE, FK, CHECK, EXCLUSION), then by name.
- * Filters out system-generated NOT NULL check constraints.
+ * Skips NOT NULL constraints (inline in CREATE TABLE) and inherited constraints
+ * (recreated by INHERITS / PARTITION OF). pg_get_constraintdef() already carries
+ * DEFERRABLE, NO INHERIT and NOT VALID; NOT VALID constraints are followed by a
+ * commented VALIDATE CONSTRAINT, and unindexed foreign keys get a warning.
  */
 export function generateConstraintsSQL(
   schema: string,
@@ -18,11 +21,11 @@ export function generateConstraintsSQL(
 
   const sqlStatements: string[] = [];
 
-  // Filter out system-generated NOT NULL constraints (they're inline in CREATE TABLE)
-  // These typically have names like "tablename_columnname_not_null" and definition "CHECK ((col IS NOT NULL))"
   const userConstraints = constraints.filter((c) => {
-    // Skip system-generated check constraints with numeric prefixes
-    if (/^\d+_\d+_\d+_.+/.test(c.constraint_name)) return false;
+    // NOT NULL is rendered inline in CREATE TABLE
+    if (c.constraint_type === "n") return false;
+    // Inherited constraints come with the parent and cannot be dropped on the child
+    if (c.is_local === false || (c.inherit_count ?? 0) > 0) return false;
     return true;
   });
 
@@ -50,15 +53,32 @@ export function generateConstraintsSQL(
       x: "EXCLUSION",
     }[constraint.constraint_type] || constraint.constraint_type;
 
+    const notValid = constraint.validated === false;
+    let definition = constraint.definition;
+    if (notValid && !/\bNOT VALID$/.test(definition)) {
+      definition += " NOT VALID";
+    }
+
     sqlStatements.push(
       `-- ${constraintTypeName}: ${constraint.constraint_name}`,
     );
+    if (constraint.constraint_type === "f" && constraint.fk_indexed === false) {
+      sqlStatements.push(
+        `-- WARNING: no index leads with the referencing columns (slow cascades and RLS joins)`,
+      );
+    }
     sqlStatements.push(
-      `ALTER TABLE ${schema}.${tableName} DROP CONSTRAINT IF EXISTS ${escapeIdent(constraint.constraint_name)};`,
+      `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} DROP CONSTRAINT IF EXISTS ${escapeIdent(constraint.constraint_name)};`,
     );
     sqlStatements.push(
-      `ALTER TABLE ${schema}.${tableName} ADD CONSTRAINT ${escapeIdent(constraint.constraint_name)} ${constraint.definition};`,
+      `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} ADD CONSTRAINT ${escapeIdent(constraint.constraint_name)} ${definition};`,
     );
+    if (notValid) {
+      // Validation scans the whole table, run it when existing rows are clean
+      sqlStatements.push(
+        `-- ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} VALIDATE CONSTRAINT ${escapeIdent(constraint.constraint_name)};`,
+      );
+    }
   }
 
   return sqlStatements;
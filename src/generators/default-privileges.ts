@@ -0,0 +1,95 @@
+import type { DefaultPrivilegeInfo } from "../database.js";
+import { escapeIdent } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+
+const OBJECT_TYPES: Record<string, { keyword: string; order: number }> = {
+  r: { keyword: "TABLES", order: 1 },
+  S: { keyword: "SEQUENCES", order: 2 },
+  f: { keyword: "FUNCTIONS", order: 3 },
+  T: { keyword: "TYPES", order: 4 },
+};
+
+/**
+ * Generate ALTER DEFAULT PRIVILEGES statements for one schema:
+ *   ALTER DEFAULT PRIVILEGES FOR ROLE r IN SCHEMA s REVOKE ALL ON TABLES FROM g;
+ *   ALTER DEFAULT PRIVILEGES FOR ROLE r IN SCHEMA s GRANT SELECT, UPDATE ON TABLES TO g;
+ *
+ * Privileges are grouped per role, object type, grantee and grant option.
+ * Sorted by role, object type (TABLES, SEQUENCES, FUNCTIONS, TYPES), then grantee.
+ */
+export function generateDefaultPrivilegesSQL(
+  schema: string,
+  defaultPrivileges: DefaultPrivilegeInfo[],
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string[] {
+  const sqlStatements: string[] = [];
+
+  const groups = new Map<
+    string,
+    {
+      role: string;
+      object_type: string;
+      grantee: string;
+      is_grantable: boolean;
+      privileges: Set<string>;
+    }
+  >();
+
+  for (const dp of defaultPrivileges) {
+    if (!OBJECT_TYPES[dp.object_type]) continue;
+    const key = `${dp.role}|${dp.object_type}|${dp.grantee}|${dp.is_grantable}`;
+    if (!groups.has(key)) {
+      groups.set(key, {
+        role: dp.role,
+        object_type: dp.object_type,
+        grantee: dp.grantee,
+        is_grantable: dp.is_grantable,
+        privileges: new Set(),
+      });
+    }
+    groups.get(key)!.privileges.add(dp.privilege);
+  }
+
+  if (groups.size === 0) return [];
+
+  const sorted = Array.from(groups.values()).sort((a, b) => {
+    const roleCompare = a.role.localeCompare(b.role);
+    if (roleCompare !== 0) return roleCompare;
+    const typeCompare =
+      OBJECT_TYPES[a.object_type].order - OBJECT_TYPES[b.object_type].order;
+    if (typeCompare !== 0) return typeCompare;
+    const granteeCompare = a.grantee.localeCompare(b.grantee);
+    if (granteeCompare !== 0) return granteeCompare;
+    return Number(a.is_grantable) - Number(b.is_grantable);
+  });
+
+  const prefix = (role: string) =>
+    `ALTER DEFAULT PRIVILEGES FOR ROLE ${formatRole(role, roleMappings, placeholderStyle)} IN SCHEMA ${escapeIdent(schema)}`;
+
+  // Revoke first for idempotency (once per role, object type and grantee)
+  const revoked = new Set<string>();
+  for (const group of sorted) {
+    const key = `${group.role}|${group.object_type}|${group.grantee}`;
+    if (revoked.has(key)) continue;
+    revoked.add(key);
+    sqlStatements.push(
+      `${prefix(group.role)} REVOKE ALL ON ${OBJECT_TYPES[group.object_type].keyword} FROM ${formatRole(group.grantee, roleMappings, placeholderStyle)};`,
+    );
+  }
+
+  sqlStatements.push("");
+
+  for (const group of sorted) {
+    const privileges = Array.from(group.privileges).sort().join(", ");
+    let sql = `${prefix(group.role)} GRANT ${privileges} ON ${OBJECT_TYPES[group.object_type].keyword} TO ${formatRole(group.grantee, roleMappings, placeholderStyle)}`;
+    if (group.is_grantable) {
+      sql += " WITH GRANT OPTION";
+    }
+    sql += ";";
+    sqlStatements.push(sql);
+  }
+
+  return sqlStatements;
+}
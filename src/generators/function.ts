@@ -1,14 +1,84 @@
+import { createHash } from "crypto";
 import type { FunctionInfo } from "../database.js";
-import { escapeIdent, applyRoleMappings } from "./utils.js";
+import { escapeQualifiedIdent, escapeComment } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import { remapSchemaReferences } from "./schema-mappings.js";
+import { generatePrivilegeGrantsSQL } from "./grants.js";
+
+/** Longest signature kept readable in a file name before falling back to a hash */
+const MAX_SIGNATURE_FILE_NAME = 120;
+
+/**
+ * File name for a function snapshot. Overloads are named after their identity
+ * argument types, e.g. my_fn(integer,text).sql, so a file keeps its name when
+ * a third or later overload is added or dropped. A function without overloads
+ * is plain my_fn.sql and is renamed when its first overload appears (and back
+ * when it is the only one again). Signatures too long for a file name fall
+ * back to a short hash of the argument types.
+ */
+export function functionFileName(
+  func: Pick<FunctionInfo, "function_name" | "argument_types">,
+  overloaded: boolean,
+): string {
+  if (!overloaded) {
+    return `${func.function_name}.sql`;
+  }
+
+  const signature = func.argument_types
+    .split(/,\s*/)
+    .filter((type) => type.length > 0)
+    .map((type) => type.replace(/"/g, "").replace(/[\s/\\]+/g, "_"))
+    .join(",");
+
+  if (signature.length > MAX_SIGNATURE_FILE_NAME) {
+    const hash = createHash("sha1")
+      .update(func.argument_types)
+      .digest("hex")
+      .slice(0, 8);
+    return `${func.function_name}_${hash}.sql`;
+  }
+
+  return `${func.function_name}(${signature}).sql`;
+}
+
+/**
+ * Normalize an argument list for comparison: collapse whitespace around commas
+ * so "a integer,b text" matches "a integer, b text".
+ */
+export function normalizeFunctionSignature(signature: string): string {
+  return signature
+    .trim()
+    .replace(/^\(|\)$/g, "")
+    .split(",")
+    .map((arg) => arg.trim().replace(/\s+/g, " "))
+    .filter((arg) => arg.length > 0)
+    .join(", ");
+}
 
 /**
- * Generate a complete SQL file content for a function
+ * Generate a complete SQL file content for a function.
+ * Grants mirror pg_proc.proacl: the implicit PUBLIC EXECUTE is revoked
+ * when the database revoked it, and only actual grantees are granted.
+ * Grants are passed last (from getFunctionGrants()); roles, when given,
+ * limits them to those grantees.
+ * With includeDrop, the function is dropped by its identity signature first so
+ * return type and argument name changes replay (CREATE OR REPLACE rejects them).
  */
 export function generateFunctionSQL(
   func: FunctionInfo,
   roles?: string[],
   roleMappings?: Record<string, string>,
   includeDate: boolean = false,
+  includeDrop: boolean = false,
+  placeholderStyle?: PlaceholderStyle,
+  schemaMappings?: Record<string, string>,
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }> = [],
 ): string {
   const lines: string[] = [];
 
@@ -21,52 +91,74 @@ export function generateFunctionSQL(
   lines.push(`-- ========================================`);
   lines.push(`-- Type: ${func.function_type}`);
   lines.push(`-- Language: ${func.language}`);
+  lines.push(`-- Owner: ${formatRole(func.owner, roleMappings, placeholderStyle)}`);
+  if (func.function_type === "FUNCTION") {
+    lines.push(`-- Volatility: ${func.volatility}`);
+    lines.push(`-- Strict: ${func.is_strict ? "Yes" : "No"}`);
+    lines.push(`-- Leakproof: ${func.is_leakproof ? "Yes" : "No"}`);
+    lines.push(`-- Parallel: ${func.parallel}`);
+    lines.push(
+      `-- Cost: ${func.cost}${func.rows > 0 ? `, Rows: ${func.rows}` : ""}`,
+    );
+  }
+  lines.push(
+    `-- Security: ${func.is_security_definer ? "DEFINER" : "INVOKER"}`,
+  );
+  for (const setting of func.config || []) {
+    lines.push(`-- Config: ${setting}`);
+  }
+  if (
+    func.is_security_definer &&
+    !(func.config || []).some((setting) => setting.startsWith("search_path="))
+  ) {
+    lines.push(`-- WARNING: SECURITY DEFINER without a pinned search_path`);
+  }
   if (func.comment) {
     lines.push(`-- Comment: ${func.comment}`);
   }
-  if (roles && roles.length > 0) {
-    // Apply role mappings to roles in header for deterministic output
-    const displayRoles =
-      roleMappings && Object.keys(roleMappings).length > 0
-        ? roles.map((role) => roleMappings[role] || role)
-        : roles;
-    lines.push(`-- Grants for roles: ${displayRoles.join(", ")}`);
-  }
   lines.push("");
 
+  // Functions and procedures are targeted by their identity signature
+  const keyword = func.function_type === "PROCEDURE" ? "PROCEDURE" : "FUNCTION";
+  const signature = `${escapeQualifiedIdent(func.schema_name, func.function_name)}(${func.function_signature})`;
+  const target = `${keyword} ${signature}`;
+
+  if (includeDrop) {
+    // No CASCADE: dependent triggers, policies and views must not vanish silently
+    lines.push(`DROP ${keyword} IF EXISTS ${signature};`);
+    lines.push("");
+  }
+
   // The function definition from PostgreSQL already includes CREATE OR REPLACE
   const funcDef = func.function_definition.trim();
   lines.push(funcDef.endsWith(";") ? funcDef : funcDef + ";");
 
+  lines.push("");
+  lines.push(`ALTER ${target} OWNER TO ${formatRole(func.owner, roleMappings, placeholderStyle)};`);
+
   // Add comment if it exists
   if (func.comment) {
     lines.push("");
     lines.push(
-      `COMMENT ON FUNCTION ${func.schema_name}.${func.function_name}(${func.function_arguments}) IS ${
-        func.comment.includes("'")
-          ? `$$${func.comment}$$`
-          : `'${func.comment}'`
-      };`,
+      `COMMENT ON ${target} IS ${escapeComment(func.comment)};`,
     );
   }
 
-  // Add GRANT EXECUTE statements for specified roles
-  if (roles && roles.length > 0) {
+  // Add REVOKE / GRANT EXECUTE statements from the actual ACL
+  const grantsSQL = generatePrivilegeGrantsSQL(
+    target,
+    roles ? grants.filter((grant) => roles.includes(grant.grantee)) : grants,
+    roleMappings,
+    placeholderStyle,
+  );
+  if (!func.public_execute || grantsSQL.length > 0) {
     lines.push("");
     lines.push("-- Grant execution permissions");
-    const sortedRoles = [...roles].sort();
-    for (const role of sortedRoles) {
-      lines.push(
-        `GRANT EXECUTE ON FUNCTION ${func.schema_name}.${func.function_name}(${func.function_arguments}) TO ${escapeIdent(role)};`,
-      );
+    if (!func.public_execute) {
+      lines.push(`REVOKE ALL ON ${target} FROM PUBLIC;`);
     }
+    lines.push(...grantsSQL);
   }
 
-  let content = lines.join("\n");
-
-  if (roleMappings && Object.keys(roleMappings).length > 0) {
-    content = applyRoleMappings(content, roleMappings);
-  }
-
-  return content;
+  return remapSchemaReferences(lines.join("\n"), schemaMappings);
 }
@@ -1,8 +1,13 @@
-import { escapeIdent } from "./utils.js";
+import { escapeIdent, escapeQualifiedIdent } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
 
 /**
  * Generate REVOKE ALL + GRANT statements for table-level privileges.
  * Sorted by grantee, then privilege.
+ * objectType is the privilege target keyword (TABLE, SEQUENCE, TYPE, DOMAIN).
+ * Grantees found in roleMappings are rendered as their placeholder, in
+ * placeholderStyle when given.
  */
 export function generateGrantsSQL(
   schema: string,
@@ -13,6 +18,33 @@ export function generateGrantsSQL(
     privilege: string;
     is_grantable: boolean;
   }>,
+  objectType: string = "TABLE",
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string[] {
+  return generatePrivilegeGrantsSQL(
+    `${objectType} ${escapeQualifiedIdent(schema, tableName)}`,
+    grants,
+    roleMappings,
+    placeholderStyle,
+  );
+}
+
+/**
+ * Generate REVOKE ALL + GRANT statements on an arbitrary privilege target,
+ * e.g. "TABLE s.t" or "SCHEMA s".
+ * Sorted by grantee, then privilege.
+ */
+export function generatePrivilegeGrantsSQL(
+  target: string,
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
 ): string[] {
   const sqlStatements: string[] = [];
 
@@ -24,7 +56,7 @@ export function generateGrantsSQL(
 
   for (const grantee of sortedGrantees) {
     sqlStatements.push(
-      `REVOKE ALL ON TABLE ${schema}.${tableName} FROM ${escapeIdent(grantee)};`,
+      `REVOKE ALL ON ${target} FROM ${formatRole(grantee, roleMappings, placeholderStyle)};`,
     );
   }
 
@@ -38,7 +70,7 @@ export function generateGrantsSQL(
   });
 
   for (const grant of sortedGrants) {
-    let sql = `GRANT ${grant.privilege} ON TABLE ${schema}.${tableName} TO ${escapeIdent(grant.grantee)}`;
+    let sql = `GRANT ${grant.privilege} ON ${target} TO ${formatRole(grant.grantee, roleMappings, placeholderStyle)}`;
     if (grant.is_grantable) {
       sql += " WITH GRANT OPTION";
     }
@@ -63,6 +95,8 @@ export function generateColumnGrantsSQL(
     privilege: string;
     is_grantable: boolean;
   }>,
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
 ): string[] {
   if (columnGrants.length === 0) return [];
 
@@ -100,7 +134,7 @@ export function generateColumnGrantsSQL(
     const sortedColumns = Array.from(columns).sort();
     const escapedColumns = sortedColumns.map((col) => escapeIdent(col));
 
-    let sql = `GRANT ${privilege} (${escapedColumns.join(", ")}) ON TABLE ${schema}.${tableName} TO ${escapeIdent(grantee)}`;
+    let sql = `GRANT ${privilege} (${escapedColumns.join(", ")}) ON TABLE ${escapeQualifiedIdent(schema, tableName)} TO ${formatRole(grantee, roleMappings, placeholderStyle)}`;
     if (isGrantable) {
       sql += " WITH GRANT OPTION";
     }
@@ -1,12 +1,32 @@
-export { escapeIdent, sectionHeader, escapeComment, applyRoleMappings } from "./utils.js";
+export { escapeIdent, escapeQualifiedIdent, escapeRole, sectionHeader, quoteLiteral, dollarQuote, escapeComment } from "./utils.js";
+export {
+  compileRoleMappings,
+  resolveRoleMapping,
+  formatRole,
+  mapRoleReferences,
+  reverseRoleMappings,
+  resolvePlaceholderStyle,
+  renderPlaceholder,
+  applyRoleMappings,
+} from "./role-mappings.js";
+export { mapSchemaName, remapSchemaReferences } from "./schema-mappings.js";
+export type { PlaceholderStyle, PlaceholderPreset, PlaceholderTemplate } from "./role-mappings.js";
 export type { TableData } from "./types.js";
-export { generateDropTableSQL, generateCreateTableSQL, generateOwnerSQL } from "./table-ddl.js";
+export { generateDropTableSQL, generateCreateTableSQL, generateOwnerSQL, generateOwnedSequencesSQL, generateReleaseOwnedSequencesSQL, generateReplicaIdentitySQL, generateClusterSQL } from "./table-ddl.js";
+export { generatePartitionsSQL } from "./partitions.js";
 export { generateConstraintsSQL } from "./constraints.js";
 export { generateIndexesSQL } from "./indexes.js";
 export { generateCommentsSQL, generateIndexCommentsSQL } from "./comments.js";
 export { generateRlsSQL } from "./rls.js";
-export { generateGrantsSQL, generateColumnGrantsSQL } from "./grants.js";
+export { generateGrantsSQL, generatePrivilegeGrantsSQL, generateColumnGrantsSQL } from "./grants.js";
 export { generateTriggersSQL } from "./triggers.js";
+export { generateRulesSQL } from "./rules.js";
+export { generateStatisticsSQL } from "./statistics.js";
 export { generateTableSQL } from "./table-assembler.js";
-export { generateFunctionSQL } from "./function.js";
-export { generateMaterializedViewSQL } from "./materialized-view.js";
+export { generateFunctionSQL, functionFileName, normalizeFunctionSignature } from "./function.js";
+export { generateMaterializedViewSQL, generateCreateMaterializedViewSQL } from "./materialized-view.js";
+export { generateCreateViewSQL, generateViewSQL } from "./view.js";
+export { generateCreateSequenceSQL, generateSequenceSQL } from "./sequence.js";
+export { generateCreateTypeSQL, generateTypeSQL } from "./type.js";
+export { generateSchemaSQL } from "./schema.js";
+export { generateDefaultPrivilegesSQL } from "./default-privileges.js";
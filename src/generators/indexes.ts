@@ -1,5 +1,5 @@
 import type { IndexDefinition } from "../database.js";
-import { escapeIdent } from "./utils.js";
+import { escapeQualifiedIdent } from "./utils.js";
 
 /**
  * Generate idempotent index statements:
@@ -23,7 +23,7 @@ export function generateIndexesSQL(
 
   for (const idx of sorted) {
     sqlStatements.push(
-      `DROP INDEX IF EXISTS ${schema}.${escapeIdent(idx.index_name)};`,
+      `DROP INDEX IF EXISTS ${escapeQualifiedIdent(schema, idx.index_name)};`,
     );
     sqlStatements.push(`${idx.index_definition};`);
   }
@@ -1,8 +1,46 @@
-import type { MaterializedViewInfo } from "../database.js";
-import { escapeIdent, sectionHeader, applyRoleMappings } from "./utils.js";
+import type {
+  ColumnDefinition,
+  IndexDefinition,
+  MaterializedViewInfo,
+} from "../database.js";
+import { escapeQualifiedIdent, escapeComment, sectionHeader } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import { remapSchemaReferences } from "./schema-mappings.js";
+import { generateIndexesSQL } from "./indexes.js";
+import { generateCommentsSQL, generateIndexCommentsSQL } from "./comments.js";
+import { generateGrantsSQL } from "./grants.js";
 
 /**
- * Generate documentation and grants for a materialized view
+ * Generate CREATE MATERIALIZED VIEW ... AS <definition> WITH [NO] DATA;
+ * The data clause follows the current populated state of the view.
+ */
+export function generateCreateMaterializedViewSQL(
+  matview: MaterializedViewInfo,
+): string[] {
+  // pg_get_viewdef() returns the query with a trailing semicolon
+  const definition = matview.definition.trimEnd().replace(/;$/, "");
+
+  return [
+    `CREATE MATERIALIZED VIEW ${escapeQualifiedIdent(matview.schema_name, matview.matview_name)} AS`,
+    definition,
+    `  WITH ${matview.is_populated ? "DATA" : "NO DATA"};`,
+  ];
+}
+
+/**
+ * Generate a materialized view snapshot.
+ *
+ * By default only a documentation block and grants are emitted, since the
+ * view contents are stateful. With includeDefinition, the snapshot is fully
+ * executable like a table snapshot:
+ *   1. Header
+ *   2. DROP MATERIALIZED VIEW
+ *   3. CREATE MATERIALIZED VIEW
+ *   4. OWNER
+ *   5. INDEXES (DROP IF EXISTS + CREATE)
+ *   6. COMMENTS (VIEW + COLUMN + INDEX)
+ *   7. GRANTS
  */
 export function generateMaterializedViewSQL(
   matview: MaterializedViewInfo,
@@ -15,9 +53,14 @@ export function generateMaterializedViewSQL(
   indexes: Array<{
     index_name: string;
     index_definition: string;
+    comment?: string | null;
   }>,
   roleMappings?: Record<string, string>,
   includeDate: boolean = false,
+  includeDefinition: boolean = false,
+  columns: ColumnDefinition[] = [],
+  placeholderStyle?: PlaceholderStyle,
+  schemaMappings?: Record<string, string>,
 ): string {
   const lines: string[] = [];
 
@@ -30,13 +73,154 @@ export function generateMaterializedViewSQL(
     lines.push(`-- Date: ${new Date().toISOString()}`);
   }
   lines.push(`-- ========================================`);
-  lines.push(`-- Owner: ${matview.owner}`);
+  lines.push(`-- Owner: ${formatRole(matview.owner, roleMappings, placeholderStyle)}`);
   lines.push(`-- Populated: ${matview.is_populated ? "Yes" : "No"}`);
   if (matview.comment) {
     lines.push(`-- Comment: ${matview.comment}`);
   }
   lines.push("");
 
+  if (includeDefinition) {
+    lines.push(
+      ...generateMaterializedViewDDL(
+        matview,
+        grants,
+        indexes.map((idx) => ({ ...idx, comment: idx.comment ?? null })),
+        columns,
+        roleMappings,
+        placeholderStyle,
+      ),
+    );
+  } else {
+    lines.push(
+      ...generateMaterializedViewDocumentation(
+        matview,
+        grants,
+        indexes,
+        roleMappings,
+        placeholderStyle,
+      ),
+    );
+  }
+
+  return remapSchemaReferences(lines.join("\n"), schemaMappings);
+}
+
+/**
+ * Executable sections of a materialized view snapshot
+ */
+function generateMaterializedViewDDL(
+  matview: MaterializedViewInfo,
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  indexes: IndexDefinition[],
+  columns: ColumnDefinition[],
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string[] {
+  const schema = matview.schema_name;
+  const matviewName = matview.matview_name;
+  const lines: string[] = [];
+
+  // ---- DROP ----
+  lines.push(...sectionHeader("DROP (idempotent cleanup)"));
+  lines.push("");
+  lines.push(
+    `DROP MATERIALIZED VIEW IF EXISTS ${escapeQualifiedIdent(schema, matviewName)} CASCADE;`,
+  );
+  lines.push("");
+
+  // ---- CREATE MATERIALIZED VIEW ----
+  lines.push(...sectionHeader("CREATE MATERIALIZED VIEW"));
+  lines.push("");
+  lines.push(...generateCreateMaterializedViewSQL(matview));
+  lines.push("");
+
+  // ---- OWNER ----
+  lines.push(...sectionHeader("OWNER"));
+  lines.push("");
+  lines.push(
+    `ALTER MATERIALIZED VIEW ${escapeQualifiedIdent(schema, matviewName)} OWNER TO ${formatRole(matview.owner, roleMappings, placeholderStyle)};`,
+  );
+  lines.push("");
+
+  // ---- INDEXES ----
+  const indexesSQL = generateIndexesSQL(schema, indexes);
+  if (indexesSQL.length > 0) {
+    lines.push(...sectionHeader("INDEXES"));
+    lines.push("");
+    lines.push(...indexesSQL);
+    lines.push("");
+  }
+
+  // ---- COMMENTS ----
+  const columnCommentsSQL = generateCommentsSQL(
+    schema,
+    matviewName,
+    undefined,
+    columns,
+  );
+  const indexCommentsSQL = generateIndexCommentsSQL(schema, indexes);
+  if (
+    matview.comment ||
+    columnCommentsSQL.length > 0 ||
+    indexCommentsSQL.length > 0
+  ) {
+    lines.push(...sectionHeader("COMMENTS"));
+    lines.push("");
+    if (matview.comment) {
+      lines.push(
+        `COMMENT ON MATERIALIZED VIEW ${escapeQualifiedIdent(schema, matviewName)} IS ${escapeComment(matview.comment)};`,
+      );
+    }
+    lines.push(...columnCommentsSQL);
+    lines.push(...indexCommentsSQL);
+    lines.push("");
+  }
+
+  // ---- GRANTS ----
+  const grantsSQL = generateGrantsSQL(
+    schema,
+    matviewName,
+    grants,
+    "TABLE",
+    roleMappings,
+    placeholderStyle,
+  );
+  if (grantsSQL.length > 0) {
+    lines.push(...sectionHeader("GRANTS"));
+    lines.push("");
+    lines.push(...grantsSQL);
+    lines.push("");
+  }
+
+  return lines;
+}
+
+/**
+ * Documentation block plus permission cleanup and grants (default mode)
+ */
+function generateMaterializedViewDocumentation(
+  matview: MaterializedViewInfo,
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  indexes: Array<{
+    index_name: string;
+    index_definition: string;
+  }>,
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string[] {
+  const lines: string[] = [];
+
   // Documentation section
   lines.push("/*");
   lines.push(
@@ -50,7 +234,7 @@ export function generateMaterializedViewSQL(
     lines.push("");
   }
 
-  lines.push(`  Owner: ${matview.owner}`);
+  lines.push(`  Owner: ${formatRole(matview.owner, roleMappings, placeholderStyle)}`);
   lines.push(
     `  Status: ${matview.is_populated ? "Populated" : "Not Populated"}`,
   );
@@ -99,7 +283,7 @@ export function generateMaterializedViewSQL(
     const sortedGrantees = Array.from(grantees).sort();
     for (const grantee of sortedGrantees) {
       lines.push(
-        `REVOKE ALL ON TABLE ${matview.schema_name}.${matview.matview_name} FROM ${escapeIdent(grantee)};`,
+        `REVOKE ALL ON TABLE ${escapeQualifiedIdent(matview.schema_name, matview.matview_name)} FROM ${formatRole(grantee, roleMappings, placeholderStyle)};`,
       );
     }
     lines.push("");
@@ -116,7 +300,7 @@ export function generateMaterializedViewSQL(
       return a.privilege.localeCompare(b.privilege);
     });
     for (const grant of sortedGrants) {
-      let sql = `GRANT ${grant.privilege} ON TABLE ${matview.schema_name}.${matview.matview_name} TO ${escapeIdent(grant.grantee)}`;
+      let sql = `GRANT ${grant.privilege} ON TABLE ${escapeQualifiedIdent(matview.schema_name, matview.matview_name)} TO ${formatRole(grant.grantee, roleMappings, placeholderStyle)}`;
       if (grant.is_grantable) {
         sql += " WITH GRANT OPTION";
       }
@@ -126,11 +310,5 @@ export function generateMaterializedViewSQL(
     lines.push("");
   }
 
-  let content = lines.join("\n");
-
-  if (roleMappings && Object.keys(roleMappings).length > 0) {
-    content = applyRoleMappings(content, roleMappings);
-  }
-
-  return content;
+  return lines;
 }
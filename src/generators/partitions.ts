@@ -0,0 +1,23 @@
+import type { PartitionChildInfo } from "../database.js";
+import { escapeQualifiedIdent } from "./utils.js";
+
+/**
+ * Generate CREATE TABLE ... PARTITION OF ... for every partition below a
+ * partitioned table, parents before their children. Sub-partitioned
+ * partitions keep their own PARTITION BY clause.
+ */
+export function generatePartitionsSQL(
+  partitions: PartitionChildInfo[],
+): string[] {
+  const lines: string[] = [];
+
+  for (const partition of partitions) {
+    let line = `CREATE TABLE ${escapeQualifiedIdent(partition.schema_name, partition.table_name)} PARTITION OF ${escapeQualifiedIdent(partition.parent_schema, partition.parent_table)} ${partition.bound}`;
+    if (partition.partition_key) {
+      line += ` PARTITION BY ${partition.partition_key}`;
+    }
+    lines.push(`${line};`);
+  }
+
+  return lines;
+}
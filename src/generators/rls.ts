@@ -1,4 +1,7 @@
-import { escapeIdent } from "./utils.js";
+import { escapeIdent, escapeQualifiedIdent } from "./utils.js";
+import { formatRole, mapRoleReferences } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import type { TableData } from "./types.js";
 
 /**
  * Generate RLS statements:
@@ -7,34 +10,35 @@ import { escapeIdent } from "./utils.js";
  *   DROP POLICY IF EXISTS ...;
  *   CREATE POLICY ...;
  *
- * Policies sorted alphabetically by name.
+ * Policies sorted alphabetically by name, each preceded by the functions and
+ * relations its expressions depend on. Policies without roles apply to PUBLIC
+ * and get no TO clause; PUBLIC among other roles stays a keyword.
+ * Policy roles found in roleMappings are rendered as their placeholder; with
+ * mapRoleExpressions, current_user = 'role' comparisons in USING / WITH CHECK
+ * are mapped too.
  */
 export function generateRlsSQL(
   schema: string,
   tableName: string,
   rlsEnabled: boolean,
   rlsForce: boolean,
-  policies: Array<{
-    policy: string;
-    cmd: string;
-    roles: string[] | null;
-    permissive: string;
-    using?: string | null;
-    with_check?: string | null;
-  }>,
+  policies: TableData["rls"]["policies"],
+  roleMappings?: Record<string, string>,
+  mapRoleExpressions: boolean = false,
+  placeholderStyle?: PlaceholderStyle,
 ): string[] {
   const sqlStatements: string[] = [];
 
   // Enable RLS if needed
   if (rlsEnabled) {
     sqlStatements.push(
-      `ALTER TABLE ${schema}.${tableName} ENABLE ROW LEVEL SECURITY;`,
+      `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} ENABLE ROW LEVEL SECURITY;`,
     );
   }
 
   if (rlsForce) {
     sqlStatements.push(
-      `ALTER TABLE ${schema}.${tableName} FORCE ROW LEVEL SECURITY;`,
+      `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} FORCE ROW LEVEL SECURITY;`,
     );
   }
 
@@ -47,15 +51,22 @@ export function generateRlsSQL(
     a.policy.localeCompare(b.policy),
   );
 
+  const expression = (text: string) =>
+    mapRoleExpressions ? mapRoleReferences(text, roleMappings, placeholderStyle) : text;
+
   for (const policy of sortedPolicies) {
     const escapedPolicyName = escapeIdent(policy.policy);
 
+    if (policy.depends_on && policy.depends_on.length > 0) {
+      sqlStatements.push(`-- Depends on: ${policy.depends_on.join(", ")}`);
+    }
+
     // Drop first for idempotency
     sqlStatements.push(
-      `DROP POLICY IF EXISTS ${escapedPolicyName} ON ${schema}.${tableName};`,
+      `DROP POLICY IF EXISTS ${escapedPolicyName} ON ${escapeQualifiedIdent(schema, tableName)};`,
     );
 
-    let sql = `CREATE POLICY ${escapedPolicyName} ON ${schema}.${tableName}`;
+    let sql = `CREATE POLICY ${escapedPolicyName} ON ${escapeQualifiedIdent(schema, tableName)}`;
 
     if (policy.permissive === "RESTRICTIVE") {
       sql += " AS RESTRICTIVE";
@@ -70,16 +81,16 @@ export function generateRlsSQL(
     ) {
       const escapedRoles = [...policy.roles]
         .sort()
-        .map((role) => escapeIdent(role));
+        .map((role) => formatRole(role, roleMappings, placeholderStyle));
       sql += ` TO ${escapedRoles.join(", ")}`;
     }
 
     if (policy.using) {
-      sql += ` USING (${policy.using})`;
+      sql += ` USING (${expression(policy.using)})`;
     }
 
     if (policy.with_check) {
-      sql += ` WITH CHECK (${policy.with_check})`;
+      sql += ` WITH CHECK (${expression(policy.with_check)})`;
     }
 
     sql += ";";
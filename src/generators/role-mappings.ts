@@ -0,0 +1,371 @@
+import { escapeIdent, escapeRole, quoteLiteral, SQL_TOKEN } from "./utils.js";
+
+/**
+ * A compiled role_mappings entry. Keys starting with ^ or ending with $ are
+ * regular expressions, keys containing * or ? are globs (every wildcard is a
+ * capture group), any other key is an exact role name. Placeholders of
+ * pattern keys may reference captures as $1, $2, ... ($$ for a literal $).
+ */
+interface RoleMappingRule {
+  key: string;
+  pattern: RegExp | null;
+  /** Wildcards (glob) or capture groups (regex) in the key */
+  captureCount: number;
+  placeholder: string;
+}
+
+const compiledMappings = new WeakMap<Record<string, string>, RoleMappingRule[]>();
+
+function isRegexKey(key: string): boolean {
+  return key.startsWith("^") || key.endsWith("$");
+}
+
+function isGlobKey(key: string): boolean {
+  return /[*?]/.test(key);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const source = glob.replace(/[.+^${}()|[\]\\*?]/g, (char) =>
+    char === "*" ? "(.*)" : char === "?" ? "(.)" : `\\${char}`,
+  );
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Compile role_mappings keys, exact names first, then patterns in
+ * declaration order. Throws on an invalid regular expression.
+ */
+export function compileRoleMappings(
+  roleMappings: Record<string, string>,
+): RoleMappingRule[] {
+  const cached = compiledMappings.get(roleMappings);
+  if (cached) return cached;
+
+  const exact: RoleMappingRule[] = [];
+  const patterns: RoleMappingRule[] = [];
+  for (const [key, placeholder] of Object.entries(roleMappings)) {
+    if (isRegexKey(key)) {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(key);
+      } catch (error) {
+        throw new Error(
+          `Invalid role mapping pattern "${key}": ${(error as Error).message}`,
+        );
+      }
+      // An empty alternative always matches, the count is all we need
+      const captureCount = new RegExp(`${key}|`).exec("")!.length - 1;
+      patterns.push({ key, pattern, captureCount, placeholder });
+    } else if (isGlobKey(key)) {
+      const captureCount = (key.match(/[*?]/g) || []).length;
+      patterns.push({ key, pattern: globToRegExp(key), captureCount, placeholder });
+    } else {
+      exact.push({ key, pattern: null, captureCount: 0, placeholder });
+    }
+  }
+
+  const rules = [...exact, ...patterns];
+  compiledMappings.set(roleMappings, rules);
+  return rules;
+}
+
+function expandCaptures(
+  placeholder: string,
+  capture: (index: number) => string | undefined,
+): string {
+  return placeholder.replace(/\$(\$|\d+)/g, (match, ref: string) =>
+    ref === "$" ? "$" : capture(Number(ref)) ?? match,
+  );
+}
+
+/**
+ * Placeholder for a catalog role name, undefined when no mapping applies
+ */
+export function resolveRoleMapping(
+  role: string,
+  roleMappings?: Record<string, string>,
+): string | undefined {
+  if (!roleMappings) return undefined;
+
+  for (const rule of compileRoleMappings(roleMappings)) {
+    if (!rule.pattern) {
+      if (rule.key === role) return rule.placeholder;
+      continue;
+    }
+    const match = rule.pattern.exec(role);
+    if (match) {
+      return expandCaptures(rule.placeholder, (index) => match[index]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Placeholder syntax of the migration tool that substitutes role names:
+ *   graphile - :NAME       (Graphile Migrate placeholders)
+ *   flyway   - ${name}     (Flyway placeholders)
+ *   psql     - :"name"     (psql variables, :'name' inside literals)
+ *   sqitch   - :"name"     (sqitch passes --set variables to psql)
+ *   dbmate   - ${name}     (dbmate has no substitution; for an envsubst pass)
+ * Any other string is a template where {name} stands for the placeholder name,
+ * an object also sets the template used inside string literals.
+ * Without a style, role_mappings values are written verbatim.
+ */
+export type PlaceholderPreset = "graphile" | "flyway" | "psql" | "sqitch" | "dbmate";
+
+export interface PlaceholderTemplate {
+  /** Where a role name is expected, e.g. OWNER TO {name} */
+  identifier: string;
+  /** Inside a string literal, defaults to the identifier form quoted as a literal */
+  literal?: string;
+}
+
+export type PlaceholderStyle = PlaceholderPreset | string | PlaceholderTemplate;
+
+const PLACEHOLDER_PRESETS: Record<PlaceholderPreset, Required<PlaceholderTemplate>> = {
+  graphile: { identifier: ":{name}", literal: "':{name}'" },
+  flyway: { identifier: "${{name}}", literal: "'${{name}}'" },
+  psql: { identifier: ':"{name}"', literal: ":'{name}'" },
+  sqitch: { identifier: ':"{name}"', literal: ":'{name}'" },
+  dbmate: { identifier: "${{name}}", literal: "'${{name}}'" },
+};
+
+/**
+ * Templates of a placeholder style. Throws on an unknown preset or a
+ * template without {name}.
+ */
+export function resolvePlaceholderStyle(
+  style: PlaceholderStyle,
+): PlaceholderTemplate {
+  if (typeof style === "string" && style in PLACEHOLDER_PRESETS) {
+    return PLACEHOLDER_PRESETS[style as PlaceholderPreset];
+  }
+
+  const template = typeof style === "string" ? { identifier: style } : style;
+  for (const form of [template.identifier, template.literal]) {
+    if (form !== undefined && !form.includes("{name}")) {
+      throw new Error(
+        `Invalid placeholder style "${form}": expected one of ${Object.keys(PLACEHOLDER_PRESETS).join(", ")} or a template containing {name}`,
+      );
+    }
+  }
+  return template;
+}
+
+/**
+ * A role_mappings value rendered in the given style. With a style the value
+ * is the placeholder name; a leading ":" is dropped so Graphile-style
+ * mappings keep working when switching tools.
+ */
+export function renderPlaceholder(
+  placeholder: string,
+  style?: PlaceholderStyle,
+  context: "identifier" | "literal" = "identifier",
+): string {
+  if (style === undefined) {
+    return context === "literal" ? quoteLiteral(placeholder) : placeholder;
+  }
+
+  const template = resolvePlaceholderStyle(style);
+  const name = placeholder.replace(/^:/, "");
+  const fill = (form: string) => form.split("{name}").join(name);
+  if (context === "identifier") return fill(template.identifier);
+  return template.literal !== undefined
+    ? fill(template.literal)
+    : quoteLiteral(fill(template.identifier));
+}
+
+/**
+ * Role as rendered in OWNER TO, GRANT ... TO, REVOKE ... FROM, FOR ROLE and
+ * policy TO lists: a mapped role becomes its placeholder in placeholderStyle,
+ * any other role is quoted. Mappings match the catalog role name, so names that merely
+ * appear in columns, literals or function bodies are untouched.
+ */
+export function formatRole(
+  role: string,
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string {
+  const placeholder = resolveRoleMapping(role, roleMappings);
+  return placeholder !== undefined
+    ? renderPlaceholder(placeholder, placeholderStyle)
+    : escapeRole(role);
+}
+
+const ROLE_NAME = String.raw`(?:"(?:[^"]|"")*"|[A-Za-z_][A-Za-z0-9_$]*)(?![A-Za-z0-9_$."])`;
+const ROLE_LIST = new RegExp(
+  String.raw`\b(TO|FROM)(\s+)(${ROLE_NAME}(?:\s*,\s*${ROLE_NAME})*)`,
+  "gi",
+);
+
+/**
+ * @deprecated Generators map roles themselves; pass roleMappings to them
+ * instead. Rewrites the role lists following TO and FROM in finished SQL,
+ * resolving each name like formatRole() (exact, glob and regex keys).
+ */
+export function applyRoleMappings(
+  content: string,
+  roleMappings: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string {
+  if (Object.keys(roleMappings).length === 0) return content;
+
+  const mapRole = (token: string): string => {
+    const role = token.startsWith('"')
+      ? token.slice(1, -1).replace(/""/g, '"')
+      : token.toLowerCase();
+    const placeholder = resolveRoleMapping(role, roleMappings);
+    return placeholder !== undefined
+      ? renderPlaceholder(placeholder, placeholderStyle)
+      : token;
+  };
+
+  return content.replace(
+    ROLE_LIST,
+    (_match, keyword: string, space: string, list: string) =>
+      `${keyword}${space}${list.replace(new RegExp(ROLE_NAME, "g"), mapRole)}`,
+  );
+}
+
+const ROLE_FUNCTION = String.raw`\b(?:current_user|current_role|session_user|user)\b\)?(?:::\w+)?`;
+const ROLE_LITERAL = String.raw`'((?:[^']|'')*)'`;
+const ROLE_COMPARISON = new RegExp(
+  String.raw`(${ROLE_FUNCTION}\s*(?:=|<>|!=)\s*)${ROLE_LITERAL}|${ROLE_LITERAL}(\)?(?:::\w+)?\s*(?:=|<>|!=)\s*\(?${ROLE_FUNCTION})`,
+  "gi",
+);
+
+/**
+ * Opt-in rewrite of role names compared against current_user, current_role,
+ * session_user or user inside an expression, e.g.
+ *   (CURRENT_USER = 'app_admin'::name) -> (CURRENT_USER = ':DATABASE_ADMIN'::name)
+ * Only the string literal of the comparison is replaced, using the literal
+ * form of placeholderStyle.
+ */
+export function mapRoleReferences(
+  expression: string,
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string {
+  if (!roleMappings || Object.keys(roleMappings).length === 0) {
+    return expression;
+  }
+
+  const mapLiteral = (literal: string): string => {
+    const placeholder = resolveRoleMapping(
+      literal.replace(/''/g, "'"),
+      roleMappings,
+    );
+    return placeholder !== undefined
+      ? renderPlaceholder(placeholder, placeholderStyle, "literal")
+      : `'${literal}'`;
+  };
+
+  return expression.replace(
+    ROLE_COMPARISON,
+    (_match, prefix?: string, leftLiteral?: string, rightLiteral?: string, suffix?: string) =>
+      prefix !== undefined
+        ? `${prefix}${mapLiteral(leftLiteral!)}`
+        : `${mapLiteral(rightLiteral!)}${suffix}`,
+  );
+}
+
+/**
+ * Concrete role for a pattern key: wildcards or capture groups are filled with
+ * the given captures in order. Regex keys must otherwise be literal text.
+ */
+function roleFromPattern(rule: RoleMappingRule, captures: string[]): string {
+  if (captures.length < rule.captureCount) {
+    throw new Error(
+      `Role mapping "${rule.key}" needs ${rule.captureCount} capture value(s) to be reversed`,
+    );
+  }
+
+  if (!isRegexKey(rule.key)) {
+    let index = 0;
+    return rule.key.replace(/[*?]/g, () => captures[index++]);
+  }
+
+  // Mark each (non-nested) capture group, then require the rest to be literal
+  let index = 0;
+  const marked = rule.key
+    .replace(/^\^/, "")
+    .replace(/(?<!\\)\$$/, "")
+    .replace(/\((?!\?)(?:\\.|[^()\\])*\)/g, () => `\u0000${index++}\u0000`);
+  if (index !== rule.captureCount || /(?<!\\)[\^$.|?*+()[\]{}]/.test(marked)) {
+    throw new Error(`Role mapping pattern "${rule.key}" cannot be reversed`);
+  }
+  return marked
+    .replace(/\\(.)/g, "$1")
+    .replace(/\u0000(\d+)\u0000/g, (_match, n: string) => captures[Number(n)]);
+}
+
+/**
+ * Reverse mode: turn placeholders in snapshot SQL back into concrete roles
+ * for a target environment. Exact keys map back to themselves; pattern keys
+ * are rebuilt from `captures` ($1 = captures[0], ...). The literal form of
+ * placeholderStyle (e.g. ':NAME' or :'name') becomes a string literal, the
+ * identifier form a quoted identifier. Placeholders inside longer
+ * identifiers, comments, other string literals and dollar-quoted bodies are
+ * left alone.
+ */
+export function reverseRoleMappings(
+  content: string,
+  roleMappings: Record<string, string>,
+  captures: string[] = [],
+  placeholderStyle?: PlaceholderStyle,
+): string {
+  const replacements = new Map<string, string>();
+  for (const rule of compileRoleMappings(roleMappings)) {
+    const placeholder = rule.pattern
+      ? expandCaptures(rule.placeholder, (index) => captures[index - 1])
+      : rule.placeholder;
+    const literal = renderPlaceholder(placeholder, placeholderStyle, "literal");
+    // The first mapping for a placeholder wins, like on export
+    if (!replacements.has(literal)) {
+      const role = rule.pattern ? roleFromPattern(rule, captures) : rule.key;
+      replacements.set(literal, quoteLiteral(role));
+      replacements.set(
+        renderPlaceholder(placeholder, placeholderStyle),
+        escapeIdent(role),
+      );
+    }
+  }
+  if (replacements.size === 0) return content;
+
+  // Longest first so :DATABASE_VISITOR_2 is not read as :DATABASE_VISITOR,
+  // and ':NAME' is matched before :NAME; never part of a longer identifier
+  const alternatives = Array.from(replacements.keys())
+    .sort((a, b) => b.length - a.length)
+    .map(
+      (form) =>
+        (/^\w/.test(form) ? "(?<![\\w$])" : "") +
+        form.replace(/[.*+?^${}()|[\]\\]/g, "\\$&") +
+        (/\w$/.test(form) ? "(?![\\w$])" : ""),
+    )
+    .join("|");
+  const placeholders = new RegExp(alternatives, "y");
+
+  // Placeholders are tried at each token start; comments, other string
+  // literals, identifiers and dollar-quoted bodies are copied as they are
+  let result = "";
+  const lexer = new RegExp(SQL_TOKEN);
+  while (lexer.lastIndex < content.length) {
+    placeholders.lastIndex = lexer.lastIndex;
+    const placeholder = placeholders.exec(content);
+    if (placeholder) {
+      result += replacements.get(placeholder[0])!;
+      lexer.lastIndex = placeholders.lastIndex;
+      continue;
+    }
+
+    const start = lexer.lastIndex;
+    const token = lexer.exec(content)![0];
+    if (token.startsWith("$") && token.length > 1) {
+      const end = content.indexOf(token, lexer.lastIndex);
+      lexer.lastIndex = end === -1 ? content.length : end + token.length;
+    }
+    result += content.slice(start, lexer.lastIndex);
+  }
+
+  return result;
+}
@@ -0,0 +1,47 @@
+import type { RuleInfo } from "../database.js";
+import { escapeIdent, escapeQualifiedIdent } from "./utils.js";
+
+/**
+ * Generate rule statements:
+ *   DROP RULE IF EXISTS ... ON ...;
+ *   CREATE RULE ...;                         (from pg_get_ruledef)
+ *   ALTER TABLE ... DISABLE / ENABLE REPLICA / ENABLE ALWAYS RULE ...;
+ *
+ * Sorted by rule name.
+ */
+export function generateRulesSQL(
+  schema: string,
+  tableName: string,
+  rules: RuleInfo[],
+): string[] {
+  if (rules.length === 0) return [];
+
+  const sqlStatements: string[] = [];
+
+  const sorted = [...rules].sort((a, b) =>
+    a.rule_name.localeCompare(b.rule_name),
+  );
+
+  for (const rule of sorted) {
+    const ruleName = escapeIdent(rule.rule_name);
+    const definition = rule.definition.trim().replace(/;$/, "");
+
+    sqlStatements.push(
+      `DROP RULE IF EXISTS ${ruleName} ON ${escapeQualifiedIdent(schema, tableName)};`,
+    );
+    sqlStatements.push(`${definition};`);
+
+    const enableMode = {
+      D: "DISABLE RULE",
+      R: "ENABLE REPLICA RULE",
+      A: "ENABLE ALWAYS RULE",
+    }[rule.enabled];
+    if (enableMode) {
+      sqlStatements.push(
+        `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} ${enableMode} ${ruleName};`,
+      );
+    }
+  }
+
+  return sqlStatements;
+}
@@ -0,0 +1,158 @@
+import { escapeIdent, quoteLiteral, SQL_TOKEN } from "./utils.js";
+
+/**
+ * Target schema for a source schema, the schema itself when unmapped
+ */
+export function mapSchemaName(
+  schema: string,
+  schemaMappings?: Record<string, string>,
+): string {
+  return schemaMappings &&
+    Object.prototype.hasOwnProperty.call(schemaMappings, schema)
+    ? schemaMappings[schema]
+    : schema;
+}
+
+// Literals cast to these types hold (schema-qualified) object names
+const REG_CAST =
+  /::(?:regclass|regproc|regprocedure|regtype|regoper|regoperator|regconfig|regdictionary|regcollation|(regnamespace))\b/iy;
+
+function identValue(token: string): string {
+  return token.startsWith('"')
+    ? token.slice(1, -1).replace(/""/g, '"')
+    : token.toLowerCase();
+}
+
+/**
+ * Rewrite schema references in generated SQL: qualifiers (schema.name), names
+ * following the SCHEMA keyword (CREATE SCHEMA, ON SCHEMA, IN SCHEMA, ...),
+ * object names inside '...'::regclass style literals, e.g. nextval() defaults,
+ * and the schemas of SET search_path TO / = lists (function proconfig).
+ * Comments, other string literals and dollar-quoted bodies are left as is, so
+ * header comments keep the source names and function bodies are not touched.
+ */
+export function remapSchemaReferences(
+  sql: string,
+  schemaMappings?: Record<string, string>,
+): string {
+  if (!schemaMappings || Object.keys(schemaMappings).length === 0) {
+    return sql;
+  }
+
+  const mapped = (value: string) =>
+    Object.prototype.hasOwnProperty.call(schemaMappings, value)
+      ? schemaMappings[value]
+      : undefined;
+
+  let result = "";
+  // Significant tokens seen so far (bare words upper-cased), newest last
+  const previous: string[] = [];
+  const followsSchemaKeyword = () => {
+    const words = previous.slice(-4);
+    const last = words.length - 1;
+    if (words[last] === "SCHEMA") return true;
+    if (words[last] === "EXISTS" && words[last - 1] === "IF") {
+      return words[last - 2] === "SCHEMA";
+    }
+    return (
+      words[last] === "EXISTS" &&
+      words[last - 1] === "NOT" &&
+      words[last - 2] === "IF" &&
+      words[last - 3] === "SCHEMA"
+    );
+  };
+
+  // Inside a SET search_path TO / = list, elements follow TO, = or a comma
+  let searchPathList = false;
+
+  // Own lexer state: regclass literals are remapped recursively
+  const lexer = new RegExp(SQL_TOKEN);
+  while (lexer.lastIndex < sql.length) {
+    const start = lexer.lastIndex;
+    const token = lexer.exec(sql)![0];
+
+    if (/^\s/.test(token) || token.startsWith("--") || token.startsWith("/*")) {
+      result += token;
+      continue;
+    }
+
+    const last = previous[previous.length - 1];
+    if (searchPathList && token === ",") {
+      result += token;
+      previous.push(token);
+      continue;
+    }
+    if (searchPathList && (last === "TO" || last === "=" || last === ",")) {
+      const element = token.startsWith("'")
+        ? token.slice(1, -1).replace(/''/g, "'")
+        : /^[A-Za-z_\u0080-\uffff"]/.test(token)
+          ? token
+          : undefined;
+      if (element !== undefined) {
+        const target = mapped(identValue(element));
+        result +=
+          target === undefined
+            ? token
+            : token.startsWith("'")
+              ? quoteLiteral(escapeIdent(target))
+              : escapeIdent(target);
+        previous.push(token);
+        continue;
+      }
+    }
+    searchPathList =
+      (token === "=" || token.toUpperCase() === "TO") && last === "SEARCH_PATH";
+
+    if (token.startsWith("$")) {
+      // Dollar-quoted body: copy through the closing tag unchanged
+      const end = sql.indexOf(token, lexer.lastIndex);
+      const stop = end === -1 ? sql.length : end + token.length;
+      result += sql.slice(start, stop);
+      lexer.lastIndex = stop;
+      previous.push(token);
+      continue;
+    }
+
+    if (/^[Ee]'/.test(token)) {
+      result += token;
+      previous.push(token);
+      continue;
+    }
+
+    if (token.startsWith("'")) {
+      REG_CAST.lastIndex = lexer.lastIndex;
+      const cast = REG_CAST.exec(sql);
+      if (cast) {
+        const name = token.slice(1, -1).replace(/''/g, "'");
+        const target = cast[1] ? mapped(identValue(name)) : undefined;
+        result += quoteLiteral(
+          target !== undefined
+            ? escapeIdent(target)
+            : remapSchemaReferences(name, schemaMappings),
+        );
+      } else {
+        result += token;
+      }
+      previous.push(token);
+      continue;
+    }
+
+    const isIdent = /^[A-Za-z_\u0080-\uffff"]/.test(token);
+    if (isIdent) {
+      const isQualifier =
+        sql[lexer.lastIndex] === "." && previous[previous.length - 1] !== ".";
+      const target =
+        isQualifier || followsSchemaKeyword()
+          ? mapped(identValue(token))
+          : undefined;
+      result += target !== undefined ? escapeIdent(target) : token;
+      previous.push(token.startsWith('"') ? token : token.toUpperCase());
+      continue;
+    }
+
+    result += token;
+    previous.push(token);
+  }
+
+  return result;
+}
@@ -0,0 +1,100 @@
+import type { DefaultPrivilegeInfo, SchemaInfo } from "../database.js";
+import { escapeIdent, escapeComment, sectionHeader } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import { remapSchemaReferences } from "./schema-mappings.js";
+import { generatePrivilegeGrantsSQL } from "./grants.js";
+import { generateDefaultPrivilegesSQL } from "./default-privileges.js";
+
+/**
+ * Generate a complete SQL file content for a schema
+ *
+ * Sections (in order):
+ *   1. Header
+ *   2. CREATE SCHEMA IF NOT EXISTS
+ *   3. OWNER
+ *   4. COMMENTS
+ *   5. GRANTS (USAGE, CREATE)
+ *   6. DEFAULT PRIVILEGES (for objects created later in the schema)
+ */
+export function generateSchemaSQL(
+  schemaInfo: SchemaInfo,
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  defaultPrivileges: DefaultPrivilegeInfo[] = [],
+  roleMappings?: Record<string, string>,
+  includeDate: boolean = false,
+  placeholderStyle?: PlaceholderStyle,
+  schemaMappings?: Record<string, string>,
+): string {
+  const schema = schemaInfo.schema_name;
+  const sections: string[] = [];
+
+  // ---- HEADER ----
+  sections.push(`-- ========================================`);
+  sections.push(`-- Schema: ${schema}`);
+  sections.push(`-- Generated by Tablerizer 🎲`);
+  if (includeDate) {
+    sections.push(`-- Date: ${new Date().toISOString()}`);
+  }
+  sections.push(`-- ========================================`);
+  sections.push("");
+
+  // ---- CREATE SCHEMA ----
+  sections.push(...sectionHeader("CREATE SCHEMA"));
+  sections.push("");
+  sections.push(`CREATE SCHEMA IF NOT EXISTS ${escapeIdent(schema)};`);
+  sections.push("");
+
+  // ---- OWNER ----
+  sections.push(...sectionHeader("OWNER"));
+  sections.push("");
+  sections.push(
+    `ALTER SCHEMA ${escapeIdent(schema)} OWNER TO ${formatRole(schemaInfo.owner, roleMappings, placeholderStyle)};`,
+  );
+  sections.push("");
+
+  // ---- COMMENTS ----
+  if (schemaInfo.comment) {
+    sections.push(...sectionHeader("COMMENTS"));
+    sections.push("");
+    sections.push(
+      `COMMENT ON SCHEMA ${escapeIdent(schema)} IS ${escapeComment(schemaInfo.comment)};`,
+    );
+    sections.push("");
+  }
+
+  // ---- GRANTS ----
+  const grantsSQL = generatePrivilegeGrantsSQL(
+    `SCHEMA ${escapeIdent(schema)}`,
+    grants,
+    roleMappings,
+    placeholderStyle,
+  );
+  if (grantsSQL.length > 0) {
+    sections.push(...sectionHeader("GRANTS"));
+    sections.push("");
+    sections.push(...grantsSQL);
+    sections.push("");
+  }
+
+  // ---- DEFAULT PRIVILEGES ----
+  const defaultPrivilegesSQL = generateDefaultPrivilegesSQL(
+    schema,
+    defaultPrivileges,
+    roleMappings,
+    placeholderStyle,
+  );
+  if (defaultPrivilegesSQL.length > 0) {
+    sections.push(...sectionHeader("DEFAULT PRIVILEGES"));
+    sections.push("");
+    sections.push(...defaultPrivilegesSQL);
+    sections.push("");
+  }
+
+  return remapSchemaReferences(sections.join("\n"), schemaMappings);
+}
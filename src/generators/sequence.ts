@@ -0,0 +1,111 @@
+import type { SequenceInfo } from "../database.js";
+import { escapeQualifiedIdent, escapeComment, sectionHeader } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import { remapSchemaReferences } from "./schema-mappings.js";
+import { generateGrantsSQL } from "./grants.js";
+
+/**
+ * Generate CREATE SEQUENCE IF NOT EXISTS with every option spelled out.
+ * The current value is not exported (stateful, like materialized view data).
+ */
+export function generateCreateSequenceSQL(sequence: SequenceInfo): string[] {
+  return [
+    `CREATE SEQUENCE IF NOT EXISTS ${escapeQualifiedIdent(sequence.schema_name, sequence.sequence_name)}`,
+    `    AS ${sequence.data_type}`,
+    `    START WITH ${sequence.start_value}`,
+    `    INCREMENT BY ${sequence.increment_by}`,
+    `    MINVALUE ${sequence.min_value}`,
+    `    MAXVALUE ${sequence.max_value}`,
+    `    CACHE ${sequence.cache_size}`,
+    `    ${sequence.cycle ? "CYCLE" : "NO CYCLE"};`,
+  ];
+}
+
+/**
+ * Generate a complete SQL file content for a sequence
+ *
+ * Sections (in order):
+ *   1. Header
+ *   2. CREATE SEQUENCE
+ *   3. OWNER
+ *
+ * OWNED BY belongs to the owning table's snapshot: the table does not exist
+ * yet when sequences are replayed first.
+ *   4. COMMENTS
+ *   5. GRANTS (USAGE, SELECT, UPDATE)
+ */
+export function generateSequenceSQL(
+  sequence: SequenceInfo,
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  roleMappings?: Record<string, string>,
+  includeDate: boolean = false,
+  placeholderStyle?: PlaceholderStyle,
+  schemaMappings?: Record<string, string>,
+): string {
+  const schema = sequence.schema_name;
+  const sequenceName = sequence.sequence_name;
+  const sections: string[] = [];
+
+  // ---- HEADER ----
+  sections.push(`-- ========================================`);
+  sections.push(`-- Sequence: ${schema}.${sequenceName}`);
+  sections.push(`-- Generated by Tablerizer 🎲`);
+  if (includeDate) {
+    sections.push(`-- Date: ${new Date().toISOString()}`);
+  }
+  sections.push(`-- ========================================`);
+  if (sequence.owned_by_table && sequence.owned_by_column) {
+    sections.push(
+      `-- Owned by: ${sequence.owned_by_schema}.${sequence.owned_by_table}.${sequence.owned_by_column}`,
+    );
+  }
+  sections.push("");
+
+  // ---- CREATE SEQUENCE ----
+  sections.push(...sectionHeader("CREATE SEQUENCE"));
+  sections.push("");
+  sections.push(...generateCreateSequenceSQL(sequence));
+  sections.push("");
+
+  // ---- OWNER ----
+  sections.push(...sectionHeader("OWNER"));
+  sections.push("");
+  sections.push(
+    `ALTER SEQUENCE ${escapeQualifiedIdent(schema, sequenceName)} OWNER TO ${formatRole(sequence.owner, roleMappings, placeholderStyle)};`,
+  );
+  sections.push("");
+
+  // ---- COMMENTS ----
+  if (sequence.comment) {
+    sections.push(...sectionHeader("COMMENTS"));
+    sections.push("");
+    sections.push(
+      `COMMENT ON SEQUENCE ${escapeQualifiedIdent(schema, sequenceName)} IS ${escapeComment(sequence.comment)};`,
+    );
+    sections.push("");
+  }
+
+  // ---- GRANTS ----
+  const grantsSQL = generateGrantsSQL(
+    schema,
+    sequenceName,
+    grants,
+    "SEQUENCE",
+    roleMappings,
+    placeholderStyle,
+  );
+  if (grantsSQL.length > 0) {
+    sections.push(...sectionHeader("GRANTS"));
+    sections.push("");
+    sections.push(...grantsSQL);
+    sections.push("");
+  }
+
+  return remapSchemaReferences(sections.join("\n"), schemaMappings);
+}
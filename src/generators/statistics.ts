@@ -0,0 +1,40 @@
+import type { StatisticsInfo } from "../database.js";
+import { escapeQualifiedIdent, escapeComment } from "./utils.js";
+
+/**
+ * Generate extended statistics statements:
+ *   DROP STATISTICS IF EXISTS ...;
+ *   CREATE STATISTICS ...;                   (from pg_get_statisticsobjdef)
+ *   ALTER STATISTICS ... SET STATISTICS n;   (when a target is set)
+ *   COMMENT ON STATISTICS ...;
+ *
+ * Sorted by statistics name.
+ */
+export function generateStatisticsSQL(statistics: StatisticsInfo[]): string[] {
+  if (statistics.length === 0) return [];
+
+  const sqlStatements: string[] = [];
+
+  const sorted = [...statistics].sort((a, b) =>
+    a.statistics_name.localeCompare(b.statistics_name),
+  );
+
+  for (const stat of sorted) {
+    const qualifiedName = escapeQualifiedIdent(stat.statistics_schema, stat.statistics_name);
+
+    sqlStatements.push(`DROP STATISTICS IF EXISTS ${qualifiedName};`);
+    sqlStatements.push(`${stat.definition};`);
+    if (stat.statistics_target !== null && stat.statistics_target !== undefined) {
+      sqlStatements.push(
+        `ALTER STATISTICS ${qualifiedName} SET STATISTICS ${stat.statistics_target};`,
+      );
+    }
+    if (stat.comment) {
+      sqlStatements.push(
+        `COMMENT ON STATISTICS ${qualifiedName} IS ${escapeComment(stat.comment)};`,
+      );
+    }
+  }
+
+  return sqlStatements;
+}
@@ -1,33 +1,56 @@
-import { sectionHeader, applyRoleMappings } from "./utils.js";
+import { sectionHeader } from "./utils.js";
 import type { TableData } from "./types.js";
-import { generateDropTableSQL, generateCreateTableSQL, generateOwnerSQL } from "./table-ddl.js";
+import {
+  generateDropTableSQL,
+  generateCreateTableSQL,
+  generateOwnerSQL,
+  generateOwnedSequencesSQL,
+  generateReleaseOwnedSequencesSQL,
+  generateReplicaIdentitySQL,
+  generateClusterSQL,
+} from "./table-ddl.js";
+import { generatePartitionsSQL } from "./partitions.js";
 import { generateConstraintsSQL } from "./constraints.js";
 import { generateIndexesSQL } from "./indexes.js";
 import { generateCommentsSQL, generateIndexCommentsSQL } from "./comments.js";
 import { generateRlsSQL } from "./rls.js";
 import { generateGrantsSQL, generateColumnGrantsSQL } from "./grants.js";
 import { generateTriggersSQL } from "./triggers.js";
+import { generateRulesSQL } from "./rules.js";
+import { generateStatisticsSQL } from "./statistics.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import { remapSchemaReferences } from "./schema-mappings.js";
 
 /**
  * Generate a complete, idempotent SQL file for a table.
  *
  * Sections (in order):
  *   1. Header
- *   2. DROP TABLE
+ *   2. DROP TABLE (owned sequences detached first)
  *   3. CREATE TABLE
- *   4. OWNER
- *   5. CONSTRAINTS (DROP IF EXISTS + ADD)
- *   6. INDEXES (DROP IF EXISTS + CREATE)
- *   7. COMMENTS (TABLE + COLUMN + INDEX)
- *   8. ROW LEVEL SECURITY (ENABLE + POLICIES)
- *   9. GRANTS (TABLE-LEVEL + COLUMN-LEVEL)
- *  10. TRIGGERS (DROP IF EXISTS + CREATE)
+ *   4. PARTITIONS (PARTITION OF, when rendered inline)
+ *   5. OWNER (+ OWNED BY sequences, REPLICA IDENTITY FULL / NOTHING)
+ *   6. CONSTRAINTS (DROP IF EXISTS + ADD)
+ *   7. INDEXES (DROP IF EXISTS + CREATE + REPLICA IDENTITY USING INDEX)
+ *   8. CLUSTER (CLUSTER ON)
+ *   9. STATISTICS (DROP IF EXISTS + CREATE STATISTICS)
+ *  10. COMMENTS (TABLE + COLUMN + INDEX)
+ *  11. ROW LEVEL SECURITY (ENABLE + POLICIES)
+ *  12. GRANTS (TABLE-LEVEL + COLUMN-LEVEL)
+ *  13. TRIGGERS (DROP IF EXISTS + CREATE)
+ *  14. RULES (DROP IF EXISTS + CREATE)
+ *
+ * Schemas found in schemaMappings are renamed in every statement, including
+ * the definitions PostgreSQL returns (indexes, constraints, triggers, policies).
  */
 export function generateTableSQL(
   schema: string,
   tableData: TableData,
   roleMappings?: Record<string, string>,
   includeDate: boolean = false,
+  mapRoleExpressions: boolean = false,
+  placeholderStyle?: PlaceholderStyle,
+  schemaMappings?: Record<string, string>,
 ): string {
   const tableName = tableData.table;
   const sections: string[] = [];
@@ -40,11 +63,19 @@ export function generateTableSQL(
     sections.push(`-- Date: ${new Date().toISOString()}`);
   }
   sections.push(`-- ========================================`);
+  if (tableData.partition_of) {
+    sections.push(
+      `-- Partition of: ${tableData.partition_of.parent_schema}.${tableData.partition_of.parent_table}`,
+    );
+  }
   sections.push("");
 
   // ---- DROP TABLE ----
   sections.push(...sectionHeader("DROP (idempotent cleanup)"));
   sections.push("");
+  sections.push(
+    ...generateReleaseOwnedSequencesSQL(tableData.owned_sequences || []),
+  );
   sections.push(...generateDropTableSQL(schema, tableName));
   sections.push("");
 
@@ -57,14 +88,51 @@ export function generateTableSQL(
       tableName,
       tableData.column_definitions,
       tableData.partition_info,
+      tableData.storage,
+      tableData.partition_of,
+      tableData.inheritance,
     ),
   );
   sections.push("");
 
+  // ---- PARTITIONS ----
+  const partitionsSQL = generatePartitionsSQL(tableData.partitions || []);
+  if (partitionsSQL.length > 0) {
+    sections.push(...sectionHeader("PARTITIONS"));
+    sections.push("");
+    sections.push(...partitionsSQL);
+    sections.push("");
+  }
+
+  const replicaIdentitySQL = generateReplicaIdentitySQL(
+    schema,
+    tableName,
+    tableData.storage ?? null,
+  );
+  const replicaIdentityUsesIndex = tableData.storage?.replica_identity === "i";
+
   // ---- OWNER ----
   sections.push(...sectionHeader("OWNER"));
   sections.push("");
-  sections.push(...generateOwnerSQL(schema, tableName, tableData.owner));
+  sections.push(
+    ...generateOwnerSQL(
+      schema,
+      tableName,
+      tableData.owner,
+      roleMappings,
+      placeholderStyle,
+    ),
+  );
+  sections.push(
+    ...generateOwnedSequencesSQL(
+      schema,
+      tableName,
+      tableData.owned_sequences || [],
+    ),
+  );
+  if (!replicaIdentityUsesIndex) {
+    sections.push(...replicaIdentitySQL);
+  }
   sections.push("");
 
   // ---- CONSTRAINTS ----
@@ -82,6 +150,11 @@ export function generateTableSQL(
 
   // ---- INDEXES ----
   const indexesSQL = generateIndexesSQL(schema, tableData.index_definitions);
+  if (replicaIdentityUsesIndex && replicaIdentitySQL.length > 0) {
+    // The replica identity index (or its constraint) must exist first
+    if (indexesSQL.length > 0) indexesSQL.push("");
+    indexesSQL.push(...replicaIdentitySQL);
+  }
   if (indexesSQL.length > 0) {
     sections.push(...sectionHeader("INDEXES"));
     sections.push("");
@@ -89,6 +162,28 @@ export function generateTableSQL(
     sections.push("");
   }
 
+  // ---- CLUSTER ----
+  const clusterSQL = generateClusterSQL(
+    schema,
+    tableName,
+    tableData.clustered_index ?? null,
+  );
+  if (clusterSQL.length > 0) {
+    sections.push(...sectionHeader("CLUSTER"));
+    sections.push("");
+    sections.push(...clusterSQL);
+    sections.push("");
+  }
+
+  // ---- STATISTICS ----
+  const statisticsSQL = generateStatisticsSQL(tableData.statistics || []);
+  if (statisticsSQL.length > 0) {
+    sections.push(...sectionHeader("STATISTICS"));
+    sections.push("");
+    sections.push(...statisticsSQL);
+    sections.push("");
+  }
+
   // ---- COMMENTS ----
   const commentsSQL = generateCommentsSQL(
     schema,
@@ -120,6 +215,9 @@ export function generateTableSQL(
       tableData.rls.enabled,
       tableData.rls.force,
       tableData.rls.policies,
+      roleMappings,
+      mapRoleExpressions,
+      placeholderStyle,
     );
     if (rlsSQL.length > 0) {
       sections.push(...sectionHeader("ROW LEVEL SECURITY"));
@@ -134,11 +232,16 @@ export function generateTableSQL(
     schema,
     tableName,
     tableData.rbac.table_grants,
+    "TABLE",
+    roleMappings,
+    placeholderStyle,
   );
   const columnGrantsSQL = generateColumnGrantsSQL(
     schema,
     tableName,
     tableData.rbac.column_grants,
+    roleMappings,
+    placeholderStyle,
   );
   if (tableGrantsSQL.length > 0 || columnGrantsSQL.length > 0) {
     sections.push(...sectionHeader("GRANTS"));
@@ -160,6 +263,7 @@ export function generateTableSQL(
     schema,
     tableName,
     tableData.triggers,
+    schemaMappings,
   );
   if (triggersSQL.length > 0) {
     sections.push(...sectionHeader("TRIGGERS"));
@@ -168,12 +272,14 @@ export function generateTableSQL(
     sections.push("");
   }
 
-  let content = sections.join("\n");
-
-  // Apply role mappings if provided
-  if (roleMappings && Object.keys(roleMappings).length > 0) {
-    content = applyRoleMappings(content, roleMappings);
+  // ---- RULES ----
+  const rulesSQL = generateRulesSQL(schema, tableName, tableData.rules || []);
+  if (rulesSQL.length > 0) {
+    sections.push(...sectionHeader("RULES"));
+    sections.push("");
+    sections.push(...rulesSQL);
+    sections.push("");
   }
 
-  return content;
+  return remapSchemaReferences(sections.join("\n"), schemaMappings);
 }
@@ -1,8 +1,14 @@
 import type {
   ColumnDefinition,
+  OwnedSequenceInfo,
   PartitionInfo,
+  PartitionParentInfo,
+  TableInheritanceInfo,
+  TableStorageInfo,
 } from "../database.js";
-import { escapeIdent } from "./utils.js";
+import { escapeIdent, escapeQualifiedIdent } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
 
 /**
  * Generate DROP TABLE IF EXISTS ... CASCADE;
@@ -11,41 +17,141 @@ export function generateDropTableSQL(
   schema: string,
   tableName: string,
 ): string[] {
-  return [`DROP TABLE IF EXISTS ${schema}.${tableName} CASCADE;`];
+  return [`DROP TABLE IF EXISTS ${escapeQualifiedIdent(schema, tableName)} CASCADE;`];
+}
+
+/**
+ * Render the identity clause with every sequence option spelled out,
+ * e.g. GENERATED ALWAYS AS IDENTITY (SEQUENCE NAME s.t_id_seq START WITH 1 ...)
+ */
+function identityClause(col: ColumnDefinition): string {
+  const kind = col.identity === "a" ? "ALWAYS" : "BY DEFAULT";
+  const seq = col.identity_sequence;
+  if (!seq) {
+    return `GENERATED ${kind} AS IDENTITY`;
+  }
+  const options = [
+    `SEQUENCE NAME ${escapeQualifiedIdent(seq.sequence_schema, seq.sequence_name)}`,
+    `START WITH ${seq.start_value}`,
+    `INCREMENT BY ${seq.increment_by}`,
+    `MINVALUE ${seq.min_value}`,
+    `MAXVALUE ${seq.max_value}`,
+    `CACHE ${seq.cache_size}`,
+    seq.cycle ? "CYCLE" : "NO CYCLE",
+  ];
+  return `GENERATED ${kind} AS IDENTITY (${options.join(" ")})`;
 }
 
 /**
  * Generate CREATE TABLE statement with column definitions from pg_catalog.
  * Columns are listed in ordinal_position order (natural table order).
  * NOT NULL constraints are inline. All other constraints are separate.
+ * Identity and generated (STORED or VIRTUAL) columns replace the DEFAULT clause;
+ * STORAGE and STATISTICS follow as ALTER COLUMN statements, like pg_dump.
+ * Storage settings add UNLOGGED, USING <am>, WITH (reloptions) and TABLESPACE.
+ * Partitions are created with PARTITION OF their parent and inherit its columns.
+ * Inheritance children list only their local columns plus INHERITS (...);
+ * typed tables use OF type and list only columns with options (NOT NULL, DEFAULT).
  */
 export function generateCreateTableSQL(
   schema: string,
   tableName: string,
   columns: ColumnDefinition[],
   partitionInfo: PartitionInfo | null,
+  storage: TableStorageInfo | null = null,
+  partitionOf: PartitionParentInfo | null = null,
+  inheritance: TableInheritanceInfo | null = null,
 ): string[] {
-  if (columns.length === 0) {
-    return [`CREATE TABLE ${schema}.${tableName} ();`];
+  let createTable = `CREATE ${storage?.persistence === "u" ? "UNLOGGED " : ""}TABLE ${escapeQualifiedIdent(schema, tableName)}`;
+  const ofType = inheritance?.of_type ?? null;
+  if (ofType) {
+    createTable += ` OF ${ofType}`;
   }
 
-  const lines: string[] = [];
-  lines.push(`CREATE TABLE ${schema}.${tableName} (`);
+  // Clauses after the column list, in grammar order
+  const tail: string[] = [];
+  if (inheritance && inheritance.inherits.length > 0) {
+    tail.push(`INHERITS (${inheritance.inherits.join(", ")})`);
+  }
+  // pg_get_partkeydef() returns the full clause, e.g. "RANGE (sale_date)"
+  if (partitionInfo) {
+    tail.push(`PARTITION BY ${partitionInfo.partition_key}`);
+  }
+  if (storage?.access_method) {
+    tail.push(`USING ${escapeIdent(storage.access_method)}`);
+  }
+  if (storage?.options && storage.options.length > 0) {
+    tail.push(`WITH (${storage.options.join(", ")})`);
+  }
+  if (storage?.tablespace) {
+    tail.push(`TABLESPACE ${escapeIdent(storage.tablespace)}`);
+  }
+  const closing = tail.length > 0 ? `) ${tail.join(" ")};` : ");";
 
   // Sort by ordinal_position (natural column order from pg_attribute)
   const sortedColumns = [...columns].sort(
     (a, b) => a.ordinal_position - b.ordinal_position,
   );
 
+  if (partitionOf) {
+    const lines = [
+      `${createTable} PARTITION OF ${escapeQualifiedIdent(partitionOf.parent_schema, partitionOf.parent_table)}`,
+      `    ${partitionOf.bound}${tail.length > 0 ? ` ${tail.join(" ")}` : ""};`,
+    ];
+    return [...lines, ...generateColumnSettingsSQL(schema, tableName, sortedColumns)];
+  }
+
+  // Purely inherited columns come from the parent; typed table columns come
+  // from the type and are only listed to add options
+  const listedColumns = sortedColumns.filter((col) =>
+    ofType
+      ? col.not_null ||
+        (col.column_default !== null && col.column_default !== undefined)
+      : col.is_local !== false,
+  );
+
+  if (ofType && listedColumns.length === 0) {
+    return [
+      `${createTable}${tail.length > 0 ? ` ${tail.join(" ")}` : ""};`,
+      ...generateColumnSettingsSQL(schema, tableName, sortedColumns),
+    ];
+  }
+
+  if (listedColumns.length === 0) {
+    return [
+      `${createTable} (${closing}`,
+      ...generateColumnSettingsSQL(schema, tableName, sortedColumns),
+    ];
+  }
+
+  const lines: string[] = [];
+  lines.push(`${createTable} (`);
+
   const columnLines: string[] = [];
-  for (const col of sortedColumns) {
-    let line = `    ${escapeIdent(col.column_name)} ${col.data_type}`;
+  for (const col of listedColumns) {
+    let line = ofType
+      ? `    ${escapeIdent(col.column_name)} WITH OPTIONS`
+      : `    ${escapeIdent(col.column_name)} ${col.data_type}`;
+
+    // Typed table columns take their collation and compression from the type
+    if (col.compression && !ofType) {
+      line += ` COMPRESSION ${col.compression}`;
+    }
+
+    if (col.collation && !ofType) {
+      line += ` COLLATE ${col.collation}`;
+    }
 
     if (col.not_null) {
       line += " NOT NULL";
     }
 
-    if (col.column_default !== null && col.column_default !== undefined) {
+    if (col.identity) {
+      line += ` ${identityClause(col)}`;
+    } else if (col.generated === "s" || col.generated === "v") {
+      const kind = col.generated === "s" ? "STORED" : "VIRTUAL";
+      line += ` GENERATED ALWAYS AS (${col.column_default}) ${kind}`;
+    } else if (col.column_default !== null && col.column_default !== undefined) {
       line += ` DEFAULT ${col.column_default}`;
     }
 
@@ -61,17 +167,33 @@ export function generateCreateTableSQL(
     }
   }
 
-  // Close the CREATE TABLE with partition clause if applicable
-  // pg_get_partkeydef() returns the full clause, e.g. "RANGE (sale_date)"
-  if (partitionInfo) {
-    lines.push(`) PARTITION BY ${partitionInfo.partition_key};`);
-  } else {
-    lines.push(`);`);
-  }
+  lines.push(closing);
+  lines.push(...generateColumnSettingsSQL(schema, tableName, sortedColumns));
 
   return lines;
 }
 
+/**
+ * Per-column STORAGE and STATISTICS, preceded by a blank line (empty when unset)
+ */
+function generateColumnSettingsSQL(
+  schema: string,
+  tableName: string,
+  columns: ColumnDefinition[],
+): string[] {
+  const settings: string[] = [];
+  for (const col of columns) {
+    const alterColumn = `ALTER TABLE ONLY ${escapeQualifiedIdent(schema, tableName)} ALTER COLUMN ${escapeIdent(col.column_name)}`;
+    if (col.storage) {
+      settings.push(`${alterColumn} SET STORAGE ${col.storage};`);
+    }
+    if (col.statistics !== null && col.statistics !== undefined) {
+      settings.push(`${alterColumn} SET STATISTICS ${col.statistics};`);
+    }
+  }
+  return settings.length > 0 ? ["", ...settings] : [];
+}
+
 /**
  * Generate ALTER TABLE ... OWNER TO ...;
  */
@@ -79,8 +201,76 @@ export function generateOwnerSQL(
   schema: string,
   tableName: string,
   owner: string,
+  roleMappings?: Record<string, string>,
+  placeholderStyle?: PlaceholderStyle,
+): string[] {
+  return [
+    `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} OWNER TO ${formatRole(owner, roleMappings, placeholderStyle)};`,
+  ];
+}
+
+/**
+ * Detach owned sequences before DROP TABLE, which would otherwise drop them
+ * along with the table and leave the recreated nextval() defaults dangling.
+ */
+export function generateReleaseOwnedSequencesSQL(
+  ownedSequences: OwnedSequenceInfo[],
+): string[] {
+  return ownedSequences.map(
+    (seq) =>
+      `ALTER SEQUENCE IF EXISTS ${escapeQualifiedIdent(seq.sequence_schema, seq.sequence_name)} OWNED BY NONE;`,
+  );
+}
+
+/**
+ * Generate ALTER SEQUENCE ... OWNED BY ... once the owning table exists
+ * (pg_dump's order: sequence, table, then ownership).
+ */
+export function generateOwnedSequencesSQL(
+  schema: string,
+  tableName: string,
+  ownedSequences: OwnedSequenceInfo[],
+): string[] {
+  return ownedSequences.map(
+    (seq) =>
+      `ALTER SEQUENCE ${escapeQualifiedIdent(seq.sequence_schema, seq.sequence_name)} OWNED BY ${escapeQualifiedIdent(schema, tableName)}.${escapeIdent(seq.column_name)};`,
+  );
+}
+
+/**
+ * Generate ALTER TABLE ... REPLICA IDENTITY ...; (empty for the default).
+ * USING INDEX must run after the index exists.
+ */
+export function generateReplicaIdentitySQL(
+  schema: string,
+  tableName: string,
+  storage: TableStorageInfo | null,
+): string[] {
+  const target = `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} REPLICA IDENTITY`;
+  switch (storage?.replica_identity) {
+    case "f":
+      return [`${target} FULL;`];
+    case "n":
+      return [`${target} NOTHING;`];
+    case "i":
+      return storage.replica_identity_index
+        ? [`${target} USING INDEX ${escapeIdent(storage.replica_identity_index)};`]
+        : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Generate ALTER TABLE ... CLUSTER ON ...; for the index marked by CLUSTER
+ */
+export function generateClusterSQL(
+  schema: string,
+  tableName: string,
+  clusteredIndex: string | null,
 ): string[] {
+  if (!clusteredIndex) return [];
   return [
-    `ALTER TABLE ${schema}.${tableName} OWNER TO ${escapeIdent(owner)};`,
+    `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} CLUSTER ON ${escapeIdent(clusteredIndex)};`,
   ];
 }
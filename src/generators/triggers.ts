@@ -1,24 +1,51 @@
-import { escapeIdent } from "./utils.js";
+import { escapeIdent, escapeQualifiedIdent } from "./utils.js";
+import { functionFileName } from "./function.js";
+import { mapSchemaName } from "./schema-mappings.js";
+import type { TableData } from "./types.js";
+
+type TriggerData = TableData["triggers"][number];
+
+/**
+ * Cross-reference comment pointing at the trigger function's snapshot, in
+ * the folder of its mapped schema
+ */
+function triggerFunctionComment(
+  trigger: TriggerData,
+  schemaMappings?: Record<string, string>,
+): string | null {
+  if (!trigger.function_schema || !trigger.function_name) return null;
+
+  const target = `${trigger.function_schema}.${trigger.function_name}(${trigger.function_argument_types ?? ""})`;
+  if (trigger.function_exported === false) {
+    return `-- Trigger function: ${target} (not in this export)`;
+  }
+
+  const fileName = functionFileName(
+    {
+      function_name: trigger.function_name,
+      argument_types: trigger.function_argument_types ?? "",
+    },
+    trigger.function_overloaded ?? false,
+  );
+  return `-- Trigger function: ${target} -> ${mapSchemaName(trigger.function_schema, schemaMappings)}/functions/${fileName}`;
+}
 
 /**
  * Generate trigger statements:
  *   DROP TRIGGER IF EXISTS ...;
- *   CREATE TRIGGER ...;
+ *   CREATE [CONSTRAINT] TRIGGER ...;
+ *   ALTER TABLE ... DISABLE / ENABLE REPLICA / ENABLE ALWAYS TRIGGER ...;
  *
- * Triggers grouped by name (multi-event), sorted alphabetically.
+ * Triggers with a pg_get_triggerdef() definition are emitted verbatim (keeps
+ * constraint triggers, DEFERRABLE, REFERENCING and UPDATE OF columns); others
+ * are rebuilt and grouped by name (multi-event). Sorted alphabetically.
+ * Each trigger is preceded by a comment naming its function's snapshot file.
  */
 export function generateTriggersSQL(
   schema: string,
   tableName: string,
-  triggers: Array<{
-    trigger_name: string;
-    action_timing: string;
-    event_manipulation: string;
-    action_orientation: string;
-    action_statement: string;
-    action_condition: string | null;
-    action_order: number;
-  }>,
+  triggers: TriggerData[],
+  schemaMappings?: Record<string, string>,
 ): string[] {
   if (triggers.length === 0) return [];
 
@@ -27,15 +54,7 @@ export function generateTriggersSQL(
   // Group triggers by name, timing, orientation, statement, and condition
   const triggerGroups = new Map<
     string,
-    {
-      trigger_name: string;
-      action_timing: string;
-      events: string[];
-      action_orientation: string;
-      action_statement: string;
-      action_condition: string | null;
-      action_order: number;
-    }
+    TriggerData & { events: string[] }
   >();
 
   for (const trigger of triggers) {
@@ -45,13 +64,8 @@ export function generateTriggersSQL(
       triggerGroups.get(groupKey)!.events.push(trigger.event_manipulation);
     } else {
       triggerGroups.set(groupKey, {
-        trigger_name: trigger.trigger_name,
-        action_timing: trigger.action_timing,
+        ...trigger,
         events: [trigger.event_manipulation],
-        action_orientation: trigger.action_orientation,
-        action_statement: trigger.action_statement,
-        action_condition: trigger.action_condition,
-        action_order: trigger.action_order,
       });
     }
   }
@@ -64,26 +78,52 @@ export function generateTriggersSQL(
   for (const triggerGroup of sortedTriggers) {
     const escapedTriggerName = escapeIdent(triggerGroup.trigger_name);
 
+    const functionComment = triggerFunctionComment(
+      triggerGroup,
+      schemaMappings,
+    );
+    if (functionComment) {
+      sqlStatements.push(functionComment);
+    }
+
     // Drop first for idempotency
     sqlStatements.push(
-      `DROP TRIGGER IF EXISTS ${escapedTriggerName} ON ${schema}.${tableName};`,
+      `DROP TRIGGER IF EXISTS ${escapedTriggerName} ON ${escapeQualifiedIdent(schema, tableName)};`,
     );
 
-    // Sort events for consistent output
-    const sortedEvents = [...triggerGroup.events].sort();
-    const eventString = sortedEvents.join(" OR ");
+    if (triggerGroup.definition) {
+      sqlStatements.push(`${triggerGroup.definition.trim().replace(/;$/, "")};`);
+    } else {
+      // Sort events for consistent output
+      const sortedEvents = [...triggerGroup.events].sort();
+      const eventString = sortedEvents.join(" OR ");
+
+      let sql = `CREATE TRIGGER ${escapedTriggerName}`;
+      sql += ` ${triggerGroup.action_timing} ${eventString}`;
+      sql += ` ON ${escapeQualifiedIdent(schema, tableName)}`;
+      sql += ` FOR EACH ${triggerGroup.action_orientation}`;
 
-    let sql = `CREATE TRIGGER ${escapedTriggerName}`;
-    sql += ` ${triggerGroup.action_timing} ${eventString}`;
-    sql += ` ON ${schema}.${tableName}`;
-    sql += ` FOR EACH ${triggerGroup.action_orientation}`;
+      if (triggerGroup.action_condition) {
+        sql += ` WHEN (${triggerGroup.action_condition})`;
+      }
 
-    if (triggerGroup.action_condition) {
-      sql += ` WHEN (${triggerGroup.action_condition})`;
+      sql += ` ${triggerGroup.action_statement};`;
+      sqlStatements.push(sql);
     }
 
-    sql += ` ${triggerGroup.action_statement};`;
-    sqlStatements.push(sql);
+    // New triggers fire in origin mode, restore any other state
+    const enableMode = triggerGroup.enabled
+      ? {
+          D: "DISABLE TRIGGER",
+          R: "ENABLE REPLICA TRIGGER",
+          A: "ENABLE ALWAYS TRIGGER",
+        }[triggerGroup.enabled]
+      : undefined;
+    if (enableMode) {
+      sqlStatements.push(
+        `ALTER TABLE ${escapeQualifiedIdent(schema, tableName)} ${enableMode} ${escapedTriggerName};`,
+      );
+    }
   }
 
   return sqlStatements;
@@ -0,0 +1,203 @@
+import type { TypeInfo } from "../database.js";
+import { escapeIdent, escapeQualifiedIdent, quoteLiteral, escapeComment, sectionHeader } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import { remapSchemaReferences } from "./schema-mappings.js";
+import { generateGrantsSQL } from "./grants.js";
+
+/**
+ * Keyword used by DROP / ALTER / COMMENT / GRANT for a type:
+ * domains have their own object class, everything else is a TYPE.
+ */
+function typeKeyword(type: TypeInfo): string {
+  return type.type_kind === "d" ? "DOMAIN" : "TYPE";
+}
+
+/**
+ * Generate the CREATE TYPE / CREATE DOMAIN statement:
+ *   - enum: labels in enumsortorder
+ *   - composite: attributes in attnum order
+ *   - domain: base type, collation, default, NOT NULL and CHECK constraints
+ *   - range: subtype and non-default support options
+ */
+export function generateCreateTypeSQL(type: TypeInfo): string[] {
+  const qualifiedName = escapeQualifiedIdent(type.schema_name, type.type_name);
+  const lines: string[] = [];
+
+  switch (type.type_kind) {
+    case "e": {
+      const labels = type.enum_labels || [];
+      if (labels.length === 0) {
+        return [`CREATE TYPE ${qualifiedName} AS ENUM ();`];
+      }
+      lines.push(`CREATE TYPE ${qualifiedName} AS ENUM (`);
+      labels.forEach((label, i) => {
+        lines.push(`    ${quoteLiteral(label)}${i < labels.length - 1 ? "," : ""}`);
+      });
+      lines.push(`);`);
+      break;
+    }
+
+    case "c": {
+      const attributes = type.attributes || [];
+      if (attributes.length === 0) {
+        return [`CREATE TYPE ${qualifiedName} AS ();`];
+      }
+      lines.push(`CREATE TYPE ${qualifiedName} AS (`);
+      attributes.forEach((attr, i) => {
+        let line = `    ${escapeIdent(attr.name)} ${attr.data_type}`;
+        if (attr.collation) {
+          line += ` COLLATE ${attr.collation}`;
+        }
+        lines.push(`${line}${i < attributes.length - 1 ? "," : ""}`);
+      });
+      lines.push(`);`);
+      break;
+    }
+
+    case "d": {
+      lines.push(`CREATE DOMAIN ${qualifiedName} AS ${type.base_type}`);
+      if (type.collation) {
+        lines.push(`    COLLATE ${type.collation}`);
+      }
+      if (type.default_value !== null && type.default_value !== undefined) {
+        lines.push(`    DEFAULT ${type.default_value}`);
+      }
+      if (type.not_null) {
+        lines.push(`    NOT NULL`);
+      }
+      for (const constraint of type.constraints || []) {
+        lines.push(
+          `    CONSTRAINT ${escapeIdent(constraint.name)} ${constraint.definition}`,
+        );
+      }
+      lines[lines.length - 1] += ";";
+      break;
+    }
+
+    case "r": {
+      const options = [`subtype = ${type.range_subtype}`];
+      if (type.range_subtype_opclass) {
+        options.push(`subtype_opclass = ${type.range_subtype_opclass}`);
+      }
+      if (type.collation) {
+        options.push(`collation = ${type.collation}`);
+      }
+      if (type.range_canonical) {
+        options.push(`canonical = ${type.range_canonical}`);
+      }
+      if (type.range_subtype_diff) {
+        options.push(`subtype_diff = ${type.range_subtype_diff}`);
+      }
+      lines.push(`CREATE TYPE ${qualifiedName} AS RANGE (`);
+      options.forEach((option, i) => {
+        lines.push(`    ${option}${i < options.length - 1 ? "," : ""}`);
+      });
+      lines.push(`);`);
+      break;
+    }
+
+    default:
+      throw new Error(
+        `Unsupported type kind '${type.type_kind}' for ${qualifiedName}`,
+      );
+  }
+
+  return lines;
+}
+
+/**
+ * Generate a complete SQL file content for an enum, composite, domain or range type
+ *
+ * Sections (in order):
+ *   1. Header
+ *   2. DROP TYPE / DOMAIN
+ *   3. CREATE TYPE / DOMAIN
+ *   4. OWNER
+ *   5. COMMENTS
+ *   6. GRANTS (USAGE)
+ */
+export function generateTypeSQL(
+  type: TypeInfo,
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  roleMappings?: Record<string, string>,
+  includeDate: boolean = false,
+  placeholderStyle?: PlaceholderStyle,
+  schemaMappings?: Record<string, string>,
+): string {
+  const schema = type.schema_name;
+  const typeName = type.type_name;
+  const keyword = typeKeyword(type);
+  const kindName = {
+    e: "Enum",
+    c: "Composite",
+    d: "Domain",
+    r: "Range",
+  }[type.type_kind] || type.type_kind;
+  const sections: string[] = [];
+
+  // ---- HEADER ----
+  sections.push(`-- ========================================`);
+  sections.push(`-- Type: ${schema}.${typeName}`);
+  sections.push(`-- Generated by Tablerizer 🎲`);
+  if (includeDate) {
+    sections.push(`-- Date: ${new Date().toISOString()}`);
+  }
+  sections.push(`-- ========================================`);
+  sections.push(`-- Kind: ${kindName}`);
+  sections.push("");
+
+  // ---- DROP ----
+  sections.push(...sectionHeader("DROP (idempotent cleanup)"));
+  sections.push("");
+  // No CASCADE: columns, functions and views using the type must not vanish silently
+  sections.push(`DROP ${keyword} IF EXISTS ${escapeQualifiedIdent(schema, typeName)};`);
+  sections.push("");
+
+  // ---- CREATE ----
+  sections.push(...sectionHeader(`CREATE ${keyword}`));
+  sections.push("");
+  sections.push(...generateCreateTypeSQL(type));
+  sections.push("");
+
+  // ---- OWNER ----
+  sections.push(...sectionHeader("OWNER"));
+  sections.push("");
+  sections.push(
+    `ALTER ${keyword} ${escapeQualifiedIdent(schema, typeName)} OWNER TO ${formatRole(type.owner, roleMappings, placeholderStyle)};`,
+  );
+  sections.push("");
+
+  // ---- COMMENTS ----
+  if (type.comment) {
+    sections.push(...sectionHeader("COMMENTS"));
+    sections.push("");
+    sections.push(
+      `COMMENT ON ${keyword} ${escapeQualifiedIdent(schema, typeName)} IS ${escapeComment(type.comment)};`,
+    );
+    sections.push("");
+  }
+
+  // ---- GRANTS ----
+  const grantsSQL = generateGrantsSQL(
+    schema,
+    typeName,
+    grants,
+    keyword,
+    roleMappings,
+    placeholderStyle,
+  );
+  if (grantsSQL.length > 0) {
+    sections.push(...sectionHeader("GRANTS"));
+    sections.push("");
+    sections.push(...grantsSQL);
+    sections.push("");
+  }
+
+  return remapSchemaReferences(sections.join("\n"), schemaMappings);
+}
@@ -3,6 +3,13 @@ import type {
   ConstraintDefinition,
   IndexDefinition,
   PartitionInfo,
+  PartitionParentInfo,
+  PartitionChildInfo,
+  RuleInfo,
+  OwnedSequenceInfo,
+  StatisticsInfo,
+  TableInheritanceInfo,
+  TableStorageInfo,
 } from "../database.js";
 
 export interface TableData {
@@ -18,6 +25,8 @@ export interface TableData {
       permissive: string;
       using?: string | null;
       with_check?: string | null;
+      /** Functions and relations the policy expressions depend on (pg_depend) */
+      depends_on?: string[] | null;
     }>;
   };
   rbac: {
@@ -43,6 +52,18 @@ export interface TableData {
     action_statement: string;
     action_condition: string | null;
     action_order: number;
+    /** pg_get_triggerdef(), used verbatim when present */
+    definition?: string;
+    /** tgenabled: 'O' = origin, 'D' = disabled, 'R' = replica, 'A' = always */
+    enabled?: string;
+    /** Trigger function resolved from tgfoid */
+    function_oid?: number;
+    function_schema?: string;
+    function_name?: string;
+    function_argument_types?: string;
+    function_overloaded?: boolean;
+    /** False when the function's snapshot is not part of this export */
+    function_exported?: boolean;
   }>;
   /** pg_catalog column definitions (pg_dump-style exact types) */
   column_definitions: ColumnDefinition[];
@@ -52,6 +73,22 @@ export interface TableData {
   index_definitions: IndexDefinition[];
   /** Partition info (null if not partitioned) */
   partition_info: PartitionInfo | null;
+  /** Parent and bound when the table is itself a partition */
+  partition_of?: PartitionParentInfo | null;
+  /** Partitions rendered inline below the CREATE TABLE (parents before children) */
+  partitions?: PartitionChildInfo[];
+  /** INHERITS parents and OF type */
+  inheritance?: TableInheritanceInfo | null;
+  /** UNLOGGED, reloptions, tablespace, access method and replica identity */
+  storage?: TableStorageInfo | null;
+  /** Index marked for CLUSTER (indisclustered) */
+  clustered_index?: string | null;
+  /** Rewrite rules (pg_rewrite) */
+  rules?: RuleInfo[];
+  /** Extended statistics objects (pg_statistic_ext) */
+  statistics?: StatisticsInfo[];
+  /** Sequences owned by columns of this table (OWNED BY) */
+  owned_sequences?: OwnedSequenceInfo[];
   /** Table-level comment */
   comment?: string;
 }
@@ -1,8 +1,65 @@
+/**
+ * Keywords quote_ident() always quotes: every category except UNRESERVED
+ * (reserved, type/function name and column name keywords of src/include/parser/kwlist.h)
+ */
+const QUOTED_KEYWORDS = new Set([
+  // Reserved
+  "all", "analyse", "analyze", "and", "any", "array", "as", "asc",
+  "asymmetric", "both", "case", "cast", "check", "collate", "column",
+  "constraint", "create", "current_catalog", "current_date", "current_role",
+  "current_time", "current_timestamp", "current_user", "default",
+  "deferrable", "desc", "distinct", "do", "else", "end", "except", "false",
+  "fetch", "for", "foreign", "from", "grant", "group", "having", "in",
+  "initially", "intersect", "into", "lateral", "leading", "limit",
+  "localtime", "localtimestamp", "not", "null", "offset", "on", "only", "or",
+  "order", "placing", "primary", "references", "returning", "select",
+  "session_user", "some", "symmetric", "system_user", "table", "then", "to",
+  "trailing", "true", "union", "unique", "user", "using", "variadic", "when",
+  "where", "window", "with",
+  // Type or function names
+  "authorization", "binary", "collation", "concurrently", "cross",
+  "current_schema", "freeze", "full", "ilike", "inner", "is", "isnull",
+  "join", "left", "like", "natural", "notnull", "outer", "overlaps", "right",
+  "similar", "tablesample", "verbose",
+  // Column names
+  "between", "bigint", "bit", "boolean", "char", "character", "coalesce",
+  "dec", "decimal", "exists", "extract", "float", "greatest", "grouping",
+  "inout", "int", "integer", "interval", "json", "json_array",
+  "json_arrayagg", "json_exists", "json_object", "json_objectagg",
+  "json_query", "json_scalar", "json_serialize", "json_table", "json_value",
+  "least", "merge_action", "national", "nchar", "none", "normalize",
+  "nullif", "numeric", "out", "overlay", "position", "precision", "real",
+  "row", "setof", "smallint", "substring", "time", "timestamp", "treat",
+  "trim", "values", "varchar", "xmlattributes", "xmlconcat", "xmlelement",
+  "xmlexists", "xmlforest", "xmlnamespaces", "xmlparse", "xmlpi", "xmlroot",
+  "xmlserialize", "xmltable",
+]);
+
+/**
+ * Quote an identifier the way quote_ident() does: left bare only when it is
+ * all lowercase letters, digits and underscores (not starting with a digit)
+ * and not a keyword; otherwise double-quoted with embedded quotes doubled.
+ */
 export function escapeIdent(name: string): string {
-  if (name.includes(" ") || name.includes("-") || name.includes(".")) {
-    return `"${name}"`;
+  if (/^[a-z_][a-z0-9_]*$/.test(name) && !QUOTED_KEYWORDS.has(name)) {
+    return name;
   }
-  return name;
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Schema-qualified identifier, e.g. app_public."Order"
+ */
+export function escapeQualifiedIdent(schema: string, name: string): string {
+  return `${escapeIdent(schema)}.${escapeIdent(name)}`;
+}
+
+/**
+ * Role in GRANT / REVOKE / TO lists: the PUBLIC pseudo-role is a keyword,
+ * not an identifier
+ */
+export function escapeRole(role: string): string {
+  return role === "PUBLIC" ? "PUBLIC" : escapeIdent(role);
 }
 
 export function sectionHeader(title: string): string[] {
@@ -13,34 +70,39 @@ export function sectionHeader(title: string): string[] {
   ];
 }
 
-export function escapeComment(text: string): string {
-  return text.includes("'") ? `$$${text}$$` : `'${text}'`;
+/**
+ * SQL lexer tokens: comments, E'' and '' literals, dollar-quote openers,
+ * quoted and bare identifiers, whitespace; anything else one character at a
+ * time. Global and sticky: copy it with new RegExp() for each scan.
+ */
+export const SQL_TOKEN =
+  /--[^\n]*|\/\*[\s\S]*?\*\/|[Ee]'(?:[^'\\]|\\[\s\S]|'')*'|'(?:[^']|'')*'|\$(?:[A-Za-z_][A-Za-z0-9_]*)?\$|"(?:[^"]|"")*"|[A-Za-z_\u0080-\uffff][A-Za-z0-9_$\u0080-\uffff]*|\s+|[\s\S]/gy;
+
+/**
+ * Standard SQL string literal, single quotes doubled
+ */
+export function quoteLiteral(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
 }
 
-export function applyRoleMappings(
-  content: string,
-  roleMappings: Record<string, string>,
-): string {
-  let mappedContent = content;
-
-  for (const [actualRole, placeholder] of Object.entries(roleMappings)) {
-    // Replace role names in various SQL contexts
-    const patterns = [
-      // GRANT/REVOKE TO/FROM role
-      new RegExp(`\\b(TO|FROM)\\s+"?${actualRole}"?\\b`, "gi"),
-      // Role in policy definitions
-      new RegExp(`\\b"?${actualRole}"?\\b(?=\\s*[,;)])`, "gi"),
-    ];
-
-    for (const pattern of patterns) {
-      mappedContent = mappedContent.replace(pattern, (match) => {
-        return match.replace(
-          new RegExp(`"?${actualRole}"?`, "gi"),
-          placeholder,
-        );
-      });
+/**
+ * Dollar-quoted string with a tag that cannot terminate early: $$ when safe,
+ * otherwise $tblz$, $tblz1$, ... The first occurrence of the tag in
+ * text + tag must be the closing one (covers text ending in "$" or "$tblz").
+ */
+export function dollarQuote(text: string): string {
+  for (let i = 0; ; i++) {
+    const tag = i === 0 ? "$$" : `$tblz${i === 1 ? "" : i - 1}$`;
+    if ((text + tag).indexOf(tag) === text.length) {
+      return `${tag}${text}${tag}`;
     }
   }
+}
 
-  return mappedContent;
+/**
+ * Literal for COMMENT ON ... IS: plain quotes unless the text contains a
+ * single quote, then dollar-quoted to keep smart tags readable
+ */
+export function escapeComment(text: string): string {
+  return text.includes("'") ? dollarQuote(text) : quoteLiteral(text);
 }
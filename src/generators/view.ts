@@ -0,0 +1,159 @@
+import type { ColumnDefinition, ViewInfo } from "../database.js";
+import { escapeQualifiedIdent, escapeComment, sectionHeader } from "./utils.js";
+import { formatRole } from "./role-mappings.js";
+import type { PlaceholderStyle } from "./role-mappings.js";
+import { remapSchemaReferences } from "./schema-mappings.js";
+import { generateCommentsSQL } from "./comments.js";
+import { generateGrantsSQL, generateColumnGrantsSQL } from "./grants.js";
+
+/**
+ * Generate CREATE OR REPLACE VIEW from pg_get_viewdef().
+ * View options (security_invoker, security_barrier) go in the WITH (...) clause,
+ * check_option is rendered as a trailing WITH ... CHECK OPTION, like pg_dump does.
+ */
+export function generateCreateViewSQL(view: ViewInfo): string[] {
+  const qualifiedName = escapeQualifiedIdent(view.schema_name, view.view_name);
+
+  let checkOption: string | null = null;
+  const withOptions: string[] = [];
+  for (const option of [...(view.options || [])].sort()) {
+    const [key, value] = option.split("=", 2);
+    if (key === "check_option") {
+      checkOption = value.toUpperCase();
+    } else {
+      withOptions.push(option);
+    }
+  }
+
+  let createLine = `CREATE OR REPLACE VIEW ${qualifiedName}`;
+  if (withOptions.length > 0) {
+    createLine += ` WITH (${withOptions.join(", ")})`;
+  }
+  createLine += " AS";
+
+  // pg_get_viewdef() returns the query with a trailing semicolon
+  const definition = view.definition.trimEnd().replace(/;$/, "");
+
+  const lines = [createLine];
+  if (checkOption) {
+    lines.push(definition);
+    lines.push(`  WITH ${checkOption} CHECK OPTION;`);
+  } else {
+    lines.push(`${definition};`);
+  }
+
+  return lines;
+}
+
+/**
+ * Generate a complete SQL file content for a view
+ *
+ * Sections (in order):
+ *   1. Header
+ *   2. CREATE VIEW (CREATE OR REPLACE)
+ *   3. OWNER
+ *   4. COMMENTS (VIEW + COLUMN)
+ *   5. GRANTS (TABLE-LEVEL + COLUMN-LEVEL)
+ */
+export function generateViewSQL(
+  view: ViewInfo,
+  columns: ColumnDefinition[],
+  grants: Array<{
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  columnGrants: Array<{
+    column_name: string;
+    grantor: string;
+    grantee: string;
+    privilege: string;
+    is_grantable: boolean;
+  }>,
+  roleMappings?: Record<string, string>,
+  includeDate: boolean = false,
+  placeholderStyle?: PlaceholderStyle,
+  schemaMappings?: Record<string, string>,
+): string {
+  const schema = view.schema_name;
+  const viewName = view.view_name;
+  const sections: string[] = [];
+
+  // ---- HEADER ----
+  sections.push(`-- ========================================`);
+  sections.push(`-- View: ${schema}.${viewName}`);
+  sections.push(`-- Generated by Tablerizer 🎲`);
+  if (includeDate) {
+    sections.push(`-- Date: ${new Date().toISOString()}`);
+  }
+  sections.push(`-- ========================================`);
+  sections.push(`-- Updatable: ${view.is_updatable ? "Yes" : "No"}`);
+  sections.push("");
+
+  // ---- CREATE VIEW ----
+  sections.push(...sectionHeader("CREATE VIEW"));
+  sections.push("");
+  sections.push(...generateCreateViewSQL(view));
+  sections.push("");
+
+  // ---- OWNER ----
+  sections.push(...sectionHeader("OWNER"));
+  sections.push("");
+  sections.push(
+    `ALTER VIEW ${escapeQualifiedIdent(schema, viewName)} OWNER TO ${formatRole(view.owner, roleMappings, placeholderStyle)};`,
+  );
+  sections.push("");
+
+  // ---- COMMENTS ----
+  const columnCommentsSQL = generateCommentsSQL(
+    schema,
+    viewName,
+    undefined,
+    columns,
+  );
+  if (view.comment || columnCommentsSQL.length > 0) {
+    sections.push(...sectionHeader("COMMENTS"));
+    sections.push("");
+    if (view.comment) {
+      sections.push(
+        `COMMENT ON VIEW ${escapeQualifiedIdent(schema, viewName)} IS ${escapeComment(view.comment)};`,
+      );
+    }
+    sections.push(...columnCommentsSQL);
+    sections.push("");
+  }
+
+  // ---- GRANTS ----
+  const tableGrantsSQL = generateGrantsSQL(
+    schema,
+    viewName,
+    grants,
+    "TABLE",
+    roleMappings,
+    placeholderStyle,
+  );
+  const columnGrantsSQL = generateColumnGrantsSQL(
+    schema,
+    viewName,
+    columnGrants,
+    roleMappings,
+    placeholderStyle,
+  );
+  if (tableGrantsSQL.length > 0 || columnGrantsSQL.length > 0) {
+    sections.push(...sectionHeader("GRANTS"));
+    sections.push("");
+    if (tableGrantsSQL.length > 0) {
+      sections.push("-- Table-level grants");
+      sections.push(...tableGrantsSQL);
+    }
+    if (columnGrantsSQL.length > 0) {
+      if (tableGrantsSQL.length > 0) sections.push("");
+      sections.push("-- Column-level grants");
+      sections.push(...columnGrantsSQL);
+    }
+    sections.push("");
+  }
+
+  return remapSchemaReferences(sections.join("\n"), schemaMappings);
+}
@@ -4,4 +4,4 @@
  */
 export { Tablerizer } from "./tablerizer.js";
 export { exportTables, exportFunction, exportFunctions, exportTable } from "./convenience.js";
-export type { ExportResult, ExportProgress, ProgressCallback } from "./tablerizer.js";
+export type { ExportResult, ExportProgress, ProgressCallback, RehydrateResult } from "./tablerizer.js";
@@ -10,10 +10,122 @@ import type {
   ConstraintDefinition,
   IndexDefinition,
   PartitionInfo,
+  PartitionChildInfo,
+  RuleInfo,
+  OwnedSequenceInfo,
+  StatisticsInfo,
+  ViewInfo,
   MaterializedViewInfo,
+  SequenceInfo,
+  TypeInfo,
+  SchemaInfo,
+  DefaultPrivilegeInfo,
 } from "./database.js";
 import type { TableData } from "./generators.js";
 
+/**
+ * Get schema owner and comment
+ */
+export async function getSchemaInfo(
+  connection: DatabaseConnection,
+  schema: string
+): Promise<SchemaInfo> {
+  const result = await connection.query<SchemaInfo>(
+    `
+      SELECT
+        n.nspname as schema_name,
+        r.rolname as owner,
+        obj_description(n.oid, 'pg_namespace') as comment
+      FROM pg_namespace n
+      JOIN pg_roles r ON r.oid = n.nspowner
+      WHERE n.nspname = $1
+      `,
+    [schema]
+  );
+
+  if (result.length === 0) {
+    throw new Error(`Schema ${schema} not found`);
+  }
+
+  return result[0];
+}
+
+/**
+ * Get USAGE / CREATE grants on a schema from pg_namespace.nspacl
+ */
+export async function getSchemaGrants(
+  connection: DatabaseConnection,
+  schema: string,
+  roles?: string[]
+) {
+  const roleFilter = roles ? `AND grantee = ANY($2)` : "";
+  const params: any[] = [schema];
+  if (roles) {
+    params.push(roles);
+  }
+
+  return await connection.query(
+    `
+      SELECT grantor, grantee, privilege, is_grantable
+      FROM (
+        SELECT
+          gr.rolname as grantor,
+          CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE ge.rolname END as grantee,
+          acl.privilege_type as privilege,
+          acl.is_grantable
+        FROM pg_namespace n
+        CROSS JOIN LATERAL aclexplode(n.nspacl) acl
+        JOIN pg_roles gr ON gr.oid = acl.grantor
+        LEFT JOIN pg_roles ge ON ge.oid = acl.grantee
+        WHERE n.nspname = $1
+      ) schema_privileges
+      WHERE true ${roleFilter}
+      ORDER BY grantee, privilege
+      `,
+    params
+  );
+}
+
+/**
+ * Get schema-scoped default privileges (ALTER DEFAULT PRIVILEGES ... IN SCHEMA)
+ */
+export async function getDefaultPrivileges(
+  connection: DatabaseConnection,
+  schema: string,
+  roles?: string[]
+): Promise<DefaultPrivilegeInfo[]> {
+  const roleFilter = roles ? `AND grantee = ANY($2)` : "";
+  const params: any[] = [schema];
+  if (roles) {
+    params.push(roles);
+  }
+
+  return await connection.query<DefaultPrivilegeInfo>(
+    `
+      SELECT role, object_type, grantor, grantee, privilege, is_grantable
+      FROM (
+        SELECT
+          r.rolname as role,
+          d.defaclobjtype::text as object_type,
+          gr.rolname as grantor,
+          CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE ge.rolname END as grantee,
+          acl.privilege_type as privilege,
+          acl.is_grantable
+        FROM pg_default_acl d
+        JOIN pg_namespace n ON n.oid = d.defaclnamespace
+        JOIN pg_roles r ON r.oid = d.defaclrole
+        CROSS JOIN LATERAL aclexplode(d.defaclacl) acl
+        JOIN pg_roles gr ON gr.oid = acl.grantor
+        LEFT JOIN pg_roles ge ON ge.oid = acl.grantee
+        WHERE n.nspname = $1
+      ) default_privileges
+      WHERE true ${roleFilter}
+      ORDER BY role, object_type, grantee, privilege
+      `,
+    params
+  );
+}
+
 /**
  * Get list of tables in a schema
  * Includes ordinary tables and partitioned tables, but excludes individual partitions
@@ -56,6 +168,7 @@ export async function getFunctions(
   return await connection.query<FunctionInfo>(
     `
       SELECT
+        p.oid,
         n.nspname as schema_name,
         p.proname as function_name,
         pg_get_functiondef(p.oid) as function_definition,
@@ -71,15 +184,100 @@ export async function getFunctions(
         l.lanname as language,
         p.prosecdef as is_security_definer,
         obj_description(p.oid, 'pg_proc') as comment,
-        '' as function_signature,
-        '' as volatility,
-        false as security_definer
+        pg_get_function_identity_arguments(p.oid) as function_signature,
+        oidvectortypes(p.proargtypes) as argument_types,
+        CASE p.provolatile
+          WHEN 'i' THEN 'IMMUTABLE'
+          WHEN 's' THEN 'STABLE'
+          ELSE 'VOLATILE'
+        END as volatility,
+        p.prosecdef as security_definer,
+        r.rolname as owner,
+        p.proisstrict as is_strict,
+        p.proleakproof as is_leakproof,
+        CASE p.proparallel
+          WHEN 's' THEN 'SAFE'
+          WHEN 'r' THEN 'RESTRICTED'
+          ELSE 'UNSAFE'
+        END as parallel,
+        p.procost as cost,
+        p.prorows as rows,
+        p.proconfig as config,
+        (
+          p.proacl IS NULL
+          OR EXISTS (
+            SELECT 1 FROM aclexplode(p.proacl) acl
+            WHERE acl.grantee = 0 AND acl.privilege_type = 'EXECUTE'
+          )
+        ) as public_execute
       FROM pg_proc p
       JOIN pg_namespace n ON n.oid = p.pronamespace
       JOIN pg_language l ON l.oid = p.prolang
+      JOIN pg_roles r ON r.oid = p.proowner
       WHERE n.nspname = $1
         AND p.prokind IN ('f', 'p')  -- functions and procedures only
-      ORDER BY p.proname
+      ORDER BY p.proname, oidvectortypes(p.proargtypes)
+      `,
+    [schema]
+  );
+}
+
+/**
+ * Get EXECUTE grants for a function from pg_proc.proacl
+ * PUBLIC is reported separately through FunctionInfo.public_execute
+ */
+export async function getFunctionGrants(
+  connection: DatabaseConnection,
+  functionOid: number,
+  roles?: string[]
+) {
+  const roleFilter = roles ? `AND ge.rolname = ANY($2)` : "";
+  const params: any[] = [functionOid];
+  if (roles) {
+    params.push(roles);
+  }
+
+  return await connection.query(
+    `
+      SELECT
+        gr.rolname as grantor,
+        ge.rolname as grantee,
+        acl.privilege_type as privilege,
+        acl.is_grantable
+      FROM pg_proc p
+      CROSS JOIN LATERAL aclexplode(p.proacl) acl
+      JOIN pg_roles gr ON gr.oid = acl.grantor
+      JOIN pg_roles ge ON ge.oid = acl.grantee
+      WHERE p.oid = $1 ${roleFilter}
+      ORDER BY ge.rolname, acl.privilege_type
+      `,
+    params
+  );
+}
+
+/**
+ * Get list of views in a schema
+ */
+export async function getViews(
+  connection: DatabaseConnection,
+  schema: string
+): Promise<ViewInfo[]> {
+  return await connection.query<ViewInfo>(
+    `
+      SELECT
+        n.nspname as schema_name,
+        c.relname as view_name,
+        pg_get_viewdef(c.oid) as definition,
+        r.rolname as owner,
+        obj_description(c.oid, 'pg_class') as comment,
+        (pg_relation_is_updatable(c.oid::regclass, false) & 20) = 20 as is_updatable,
+        c.reloptions as options
+      FROM pg_class c
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_roles r ON r.oid = c.relowner
+      WHERE c.relkind = 'v'  -- views
+        AND n.nspname = $1
+      ORDER BY c.relname
       `,
     [schema]
   );
@@ -145,15 +343,13 @@ export async function getMaterializedViewIndexes(
   connection: DatabaseConnection,
   schema: string,
   matviewName: string
-) {
-  return await connection.query<{
-    index_name: string;
-    index_definition: string;
-  }>(
+): Promise<IndexDefinition[]> {
+  return await connection.query<IndexDefinition>(
     `
       SELECT 
         i.relname as index_name,
-        pg_get_indexdef(i.oid) as index_definition
+        pg_get_indexdef(i.oid) as index_definition,
+        obj_description(i.oid, 'pg_class') as comment
       FROM pg_class i
       JOIN pg_index ix ON ix.indexrelid = i.oid
       JOIN pg_class t ON t.oid = ix.indrelid
@@ -167,6 +363,221 @@ export async function getMaterializedViewIndexes(
   );
 }
 
+/**
+ * Get list of sequences in a schema
+ * Excludes sequences backing identity columns (recreated by the column itself)
+ */
+export async function getSequences(
+  connection: DatabaseConnection,
+  schema: string
+): Promise<SequenceInfo[]> {
+  return await connection.query<SequenceInfo>(
+    `
+      SELECT
+        n.nspname as schema_name,
+        c.relname as sequence_name,
+        format_type(s.seqtypid, NULL) as data_type,
+        s.seqstart::text as start_value,
+        s.seqincrement::text as increment_by,
+        s.seqmin::text as min_value,
+        s.seqmax::text as max_value,
+        s.seqcache::text as cache_size,
+        s.seqcycle as cycle,
+        r.rolname as owner,
+        obj_description(c.oid, 'pg_class') as comment,
+        tn.nspname as owned_by_schema,
+        t.relname as owned_by_table,
+        a.attname as owned_by_column
+      FROM pg_sequence s
+      JOIN pg_class c ON c.oid = s.seqrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_roles r ON r.oid = c.relowner
+      LEFT JOIN pg_depend d ON d.classid = 'pg_class'::regclass
+        AND d.objid = c.oid
+        AND d.refclassid = 'pg_class'::regclass
+        AND d.deptype = 'a'  -- OWNED BY
+      LEFT JOIN pg_class t ON t.oid = d.refobjid
+      LEFT JOIN pg_namespace tn ON tn.oid = t.relnamespace
+      LEFT JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+      WHERE c.relkind = 'S'
+        AND n.nspname = $1
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend i
+          WHERE i.classid = 'pg_class'::regclass
+            AND i.objid = c.oid
+            AND i.deptype = 'i'  -- identity column sequence
+        )
+      ORDER BY c.relname
+      `,
+    [schema]
+  );
+}
+
+/**
+ * Get grants for a sequence (USAGE, SELECT, UPDATE) from pg_class.relacl
+ */
+export async function getSequenceGrants(
+  connection: DatabaseConnection,
+  schema: string,
+  sequenceName: string,
+  roles?: string[]
+) {
+  const roleFilter = roles ? `AND grantee = ANY($3)` : "";
+  const params = [schema, sequenceName];
+  if (roles) {
+    params.push(roles as any);
+  }
+
+  return await connection.query(
+    `
+      SELECT grantor, grantee, privilege, is_grantable
+      FROM (
+        SELECT
+          gr.rolname as grantor,
+          CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE ge.rolname END as grantee,
+          acl.privilege_type as privilege,
+          acl.is_grantable
+        FROM pg_class c
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        CROSS JOIN LATERAL aclexplode(c.relacl) acl
+        JOIN pg_roles gr ON gr.oid = acl.grantor
+        LEFT JOIN pg_roles ge ON ge.oid = acl.grantee
+        WHERE c.relkind = 'S' AND n.nspname = $1 AND c.relname = $2
+      ) sequence_privileges
+      WHERE true ${roleFilter}
+      ORDER BY grantee, privilege
+      `,
+    params
+  );
+}
+
+/**
+ * Get list of user-defined enum, composite, domain and range types in a schema
+ * Excludes table row types, array types and extension-owned types
+ */
+export async function getTypes(
+  connection: DatabaseConnection,
+  schema: string
+): Promise<TypeInfo[]> {
+  return await connection.query<TypeInfo>(
+    `
+      SELECT
+        n.nspname as schema_name,
+        t.typname as type_name,
+        t.typtype as type_kind,
+        r.rolname as owner,
+        obj_description(t.oid, 'pg_type') as comment,
+        CASE WHEN t.typtype = 'e' THEN (
+          SELECT array_agg(e.enumlabel::text ORDER BY e.enumsortorder)
+          FROM pg_enum e
+          WHERE e.enumtypid = t.oid
+        ) END as enum_labels,
+        CASE WHEN t.typtype = 'c' THEN (
+          SELECT json_agg(json_build_object(
+            'name', a.attname,
+            'data_type', format_type(a.atttypid, a.atttypmod),
+            'collation', CASE WHEN a.attcollation <> at.typcollation
+              THEN quote_ident(cn.nspname) || '.' || quote_ident(co.collname) END
+          ) ORDER BY a.attnum)
+          FROM pg_attribute a
+          JOIN pg_type at ON at.oid = a.atttypid
+          LEFT JOIN pg_collation co ON co.oid = a.attcollation
+          LEFT JOIN pg_namespace cn ON cn.oid = co.collnamespace
+          WHERE a.attrelid = t.typrelid AND a.attnum > 0 AND NOT a.attisdropped
+        ) END as attributes,
+        CASE WHEN t.typtype = 'd' THEN format_type(t.typbasetype, t.typtypmod) END as base_type,
+        CASE
+          WHEN t.typtype = 'd' AND t.typcollation <> bt.typcollation
+            THEN quote_ident(tcn.nspname) || '.' || quote_ident(tco.collname)
+          -- Ranges keep their collation in pg_range, not in pg_type
+          WHEN t.typtype = 'r' AND rg.rngcollation <> st.typcollation THEN (
+            SELECT quote_ident(rcn.nspname) || '.' || quote_ident(rco.collname)
+            FROM pg_collation rco
+            JOIN pg_namespace rcn ON rcn.oid = rco.collnamespace
+            WHERE rco.oid = rg.rngcollation
+          )
+        END as collation,
+        t.typdefault as default_value,
+        t.typnotnull as not_null,
+        CASE WHEN t.typtype = 'd' THEN (
+          SELECT json_agg(json_build_object(
+            'name', con.conname,
+            'definition', pg_get_constraintdef(con.oid, true)
+          ) ORDER BY con.conname)
+          FROM pg_constraint con
+          WHERE con.contypid = t.oid AND con.contype = 'c'
+        ) END as constraints,
+        format_type(rg.rngsubtype, NULL) as range_subtype,
+        CASE WHEN NOT opc.opcdefault
+          THEN quote_ident(opcn.nspname) || '.' || quote_ident(opc.opcname) END as range_subtype_opclass,
+        CASE WHEN rg.rngcanonical::oid <> 0 THEN rg.rngcanonical::text END as range_canonical,
+        CASE WHEN rg.rngsubdiff::oid <> 0 THEN rg.rngsubdiff::text END as range_subtype_diff
+      FROM pg_type t
+      JOIN pg_namespace n ON n.oid = t.typnamespace
+      JOIN pg_roles r ON r.oid = t.typowner
+      LEFT JOIN pg_type bt ON bt.oid = t.typbasetype
+      LEFT JOIN pg_collation tco ON tco.oid = t.typcollation
+      LEFT JOIN pg_namespace tcn ON tcn.oid = tco.collnamespace
+      LEFT JOIN pg_range rg ON rg.rngtypid = t.oid
+      LEFT JOIN pg_type st ON st.oid = rg.rngsubtype
+      LEFT JOIN pg_opclass opc ON opc.oid = rg.rngsubopc
+      LEFT JOIN pg_namespace opcn ON opcn.oid = opc.opcnamespace
+      WHERE n.nspname = $1
+        AND t.typtype IN ('e', 'c', 'd', 'r')
+        -- Composite types only when standalone (not a table/view row type)
+        AND (t.typtype <> 'c' OR EXISTS (
+          SELECT 1 FROM pg_class c WHERE c.oid = t.typrelid AND c.relkind = 'c'
+        ))
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_depend d
+          WHERE d.classid = 'pg_type'::regclass
+            AND d.objid = t.oid
+            AND d.deptype = 'e'  -- extension member
+        )
+      ORDER BY t.typname
+      `,
+    [schema]
+  );
+}
+
+/**
+ * Get USAGE grants for a type or domain from pg_type.typacl
+ */
+export async function getTypeGrants(
+  connection: DatabaseConnection,
+  schema: string,
+  typeName: string,
+  roles?: string[]
+) {
+  const roleFilter = roles ? `AND grantee = ANY($3)` : "";
+  const params = [schema, typeName];
+  if (roles) {
+    params.push(roles as any);
+  }
+
+  return await connection.query(
+    `
+      SELECT grantor, grantee, privilege, is_grantable
+      FROM (
+        SELECT
+          gr.rolname as grantor,
+          CASE WHEN acl.grantee = 0 THEN 'PUBLIC' ELSE ge.rolname END as grantee,
+          acl.privilege_type as privilege,
+          acl.is_grantable
+        FROM pg_type t
+        JOIN pg_namespace n ON n.oid = t.typnamespace
+        CROSS JOIN LATERAL aclexplode(t.typacl) acl
+        JOIN pg_roles gr ON gr.oid = acl.grantor
+        LEFT JOIN pg_roles ge ON ge.oid = acl.grantee
+        WHERE n.nspname = $1 AND t.typname = $2
+      ) type_privileges
+      WHERE true ${roleFilter}
+      ORDER BY grantee, privilege
+      `,
+    params
+  );
+}
+
 /**
  * Get comprehensive table data including DDL, RBAC, RLS, triggers, constraints, etc.
  */
@@ -183,12 +594,63 @@ export async function getTableData(
     relrowsecurity: boolean;
     relforcerowsecurity: boolean;
     relkind: string;
+    persistence: string;
+    options: string[] | null;
+    tablespace: string | null;
+    access_method: string | null;
+    replica_identity: string;
+    replica_identity_index: string | null;
+    parent_schema: string | null;
+    parent_table: string | null;
+    partition_bound: string | null;
+    inherits: string[];
+    of_type: string | null;
+    clustered_index: string | null;
   }>(
     `
-      SELECT c.oid, r.rolname as owner, c.relrowsecurity, c.relforcerowsecurity, c.relkind
+      SELECT
+        c.oid,
+        r.rolname as owner,
+        c.relrowsecurity,
+        c.relforcerowsecurity,
+        c.relkind,
+        c.relpersistence as persistence,
+        c.reloptions as options,
+        ts.spcname as tablespace,
+        CASE WHEN am.amname <> 'heap' THEN am.amname END as access_method,
+        c.relreplident as replica_identity,
+        (
+          SELECT ic.relname
+          FROM pg_index i
+          JOIN pg_class ic ON ic.oid = i.indexrelid
+          WHERE i.indrelid = c.oid AND i.indisreplident
+        ) as replica_identity_index,
+        pn.nspname as parent_schema,
+        pc.relname as parent_table,
+        pg_get_expr(c.relpartbound, c.oid) as partition_bound,
+        ARRAY(
+          SELECT quote_ident(pn2.nspname) || '.' || quote_ident(p2.relname)
+          FROM pg_inherits i2
+          JOIN pg_class p2 ON p2.oid = i2.inhparent
+          JOIN pg_namespace pn2 ON pn2.oid = p2.relnamespace
+          WHERE i2.inhrelid = c.oid AND NOT c.relispartition
+          ORDER BY i2.inhseqno
+        ) as inherits,
+        CASE WHEN c.reloftype <> 0 THEN format_type(c.reloftype, NULL) END as of_type,
+        (
+          SELECT ic.relname
+          FROM pg_index i
+          JOIN pg_class ic ON ic.oid = i.indexrelid
+          WHERE i.indrelid = c.oid AND i.indisclustered
+        ) as clustered_index
       FROM pg_class c
       JOIN pg_namespace n ON n.oid = c.relnamespace
       JOIN pg_roles r ON r.oid = c.relowner
+      LEFT JOIN pg_tablespace ts ON ts.oid = c.reltablespace
+      LEFT JOIN pg_am am ON am.oid = c.relam
+      LEFT JOIN pg_inherits inh ON inh.inhrelid = c.oid AND c.relispartition
+      LEFT JOIN pg_class pc ON pc.oid = inh.inhparent
+      LEFT JOIN pg_namespace pn ON pn.oid = pc.relnamespace
       WHERE (c.relkind = 'r' OR c.relkind = 'p') AND n.nspname = $1 AND c.relname = $2
       `,
     [schema, tableName]
@@ -205,17 +667,18 @@ export async function getTableData(
     tableGrants,
     columnGrants,
     policies,
-    triggers,
     columnDefinitions,
     constraintDefinitions,
     indexDefinitions,
     partitionInfo,
     tableComment,
+    rules,
+    statistics,
+    ownedSequences,
   ] = await Promise.all([
     getTableGrants(connection, schema, tableName, roles),
     getColumnGrants(connection, schema, tableName, roles),
     getPolicies(connection, schema, tableName),
-    getTriggers(connection, schema, tableName),
     getColumnDefinitions(connection, schema, tableName),
     getConstraintDefinitions(connection, schema, tableName),
     getIndexDefinitions(connection, schema, tableName),
@@ -223,8 +686,14 @@ export async function getTableData(
       ? getPartitionInfo(connection, schema, tableName)
       : Promise.resolve(null),
     getTableComment(connection, schema, tableName),
+    getRules(connection, schema, tableName),
+    getStatistics(connection, schema, tableName),
+    getOwnedSequences(connection, schema, tableName),
   ]);
 
+  // Runs in its own transaction, so not alongside the queries above
+  const triggers = await getTriggers(connection, schema, tableName);
+
   return {
     table: tableName,
     owner: table.owner,
@@ -242,6 +711,30 @@ export async function getTableData(
     constraint_definitions: constraintDefinitions,
     index_definitions: indexDefinitions,
     partition_info: partitionInfo,
+    storage: {
+      persistence: table.persistence,
+      options: table.options,
+      tablespace: table.tablespace,
+      access_method: table.access_method,
+      replica_identity: table.replica_identity,
+      replica_identity_index: table.replica_identity_index,
+    },
+    partition_of:
+      table.parent_table && table.partition_bound
+        ? {
+            parent_schema: table.parent_schema!,
+            parent_table: table.parent_table,
+            bound: table.partition_bound,
+          }
+        : null,
+    inheritance:
+      table.inherits.length > 0 || table.of_type
+        ? { inherits: table.inherits, of_type: table.of_type }
+        : null,
+    clustered_index: table.clustered_index,
+    rules,
+    statistics,
+    owned_sequences: ownedSequences,
     comment: tableComment,
   };
 }
@@ -262,11 +755,57 @@ export async function getColumnDefinitions(
         a.attnotnull AS not_null,
         pg_get_expr(d.adbin, d.adrelid) AS column_default,
         col_description(a.attrelid, a.attnum) AS comment,
-        a.attnum AS ordinal_position
+        a.attnum AS ordinal_position,
+        a.attidentity AS identity,
+        ident.identity_sequence,
+        a.attgenerated AS generated,
+        CASE
+          WHEN a.attcollation <> 0 AND a.attcollation <> t.typcollation
+          THEN format('%I.%I', cn.nspname, co.collname)
+        END AS collation,
+        -- attcompression only exists on PostgreSQL 14+
+        CASE to_jsonb(a) ->> 'attcompression'
+          WHEN 'p' THEN 'pglz'
+          WHEN 'l' THEN 'lz4'
+        END AS compression,
+        CASE
+          WHEN a.attstorage <> t.typstorage
+          THEN CASE a.attstorage
+            WHEN 'p' THEN 'PLAIN'
+            WHEN 'e' THEN 'EXTERNAL'
+            WHEN 'm' THEN 'MAIN'
+            WHEN 'x' THEN 'EXTENDED'
+          END
+        END AS storage,
+        NULLIF(a.attstattarget, -1) AS statistics,
+        a.attislocal AS is_local
       FROM pg_attribute a
       JOIN pg_class c ON c.oid = a.attrelid
       JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_type t ON t.oid = a.atttypid
       LEFT JOIN pg_attrdef d ON (a.attrelid = d.adrelid AND a.attnum = d.adnum)
+      LEFT JOIN pg_collation co ON co.oid = a.attcollation
+      LEFT JOIN pg_namespace cn ON cn.oid = co.collnamespace
+      LEFT JOIN LATERAL (
+        SELECT json_build_object(
+          'sequence_schema', sn.nspname,
+          'sequence_name', sc.relname,
+          'start_value', seq.seqstart::text,
+          'increment_by', seq.seqincrement::text,
+          'min_value', seq.seqmin::text,
+          'max_value', seq.seqmax::text,
+          'cache_size', seq.seqcache::text,
+          'cycle', seq.seqcycle
+        ) AS identity_sequence
+        FROM pg_depend dep
+        JOIN pg_class sc ON sc.oid = dep.objid AND sc.relkind = 'S'
+        JOIN pg_namespace sn ON sn.oid = sc.relnamespace
+        JOIN pg_sequence seq ON seq.seqrelid = sc.oid
+        WHERE dep.classid = 'pg_class'::regclass
+          AND dep.refobjid = a.attrelid
+          AND dep.refobjsubid = a.attnum
+          AND dep.deptype = 'i'
+      ) ident ON a.attidentity <> ''
       WHERE n.nspname = $1
         AND c.relname = $2
         AND a.attnum > 0
@@ -290,12 +829,25 @@ export async function getConstraintDefinitions(
       SELECT
         con.conname AS constraint_name,
         con.contype AS constraint_type,
-        pg_get_constraintdef(con.oid, true) AS definition
+        pg_get_constraintdef(con.oid, true) AS definition,
+        con.conislocal AS is_local,
+        con.coninhcount AS inherit_count,
+        con.convalidated AS validated,
+        CASE WHEN con.contype = 'f' THEN EXISTS (
+          -- Some index must start with exactly the referencing columns (any order)
+          SELECT 1 FROM pg_index ix
+          WHERE ix.indrelid = con.conrelid
+            AND ix.indpred IS NULL
+            AND (string_to_array(ix.indkey::text, ' ')::int2[])[1:cardinality(con.conkey)] @> con.conkey
+            AND (string_to_array(ix.indkey::text, ' ')::int2[])[1:cardinality(con.conkey)] <@ con.conkey
+        ) END AS fk_indexed
       FROM pg_constraint con
       JOIN pg_class c ON c.oid = con.conrelid
       JOIN pg_namespace n ON n.oid = c.relnamespace
       WHERE n.nspname = $1
         AND c.relname = $2
+        -- Skip constraints cloned from a partitioned parent (recreated by PARTITION OF)
+        AND con.conparentid = 0
       ORDER BY
         CASE con.contype
           WHEN 'p' THEN 1
@@ -336,6 +888,11 @@ export async function getIndexDefinitions(
           SELECT 1 FROM pg_constraint c
           WHERE c.conindid = i.oid
         )
+        -- Exclude partition indexes attached to a parent index (recreated by PARTITION OF)
+        AND NOT EXISTS (
+          SELECT 1 FROM pg_inherits pi
+          WHERE pi.inhrelid = i.oid
+        )
       ORDER BY i.relname
       `,
     [schema, tableName]
@@ -375,6 +932,49 @@ export async function getPartitionInfo(
   };
 }
 
+/**
+ * Get every partition below a partitioned table, parents before their children
+ */
+export async function getPartitions(
+  connection: DatabaseConnection,
+  schema: string,
+  tableName: string
+): Promise<PartitionChildInfo[]> {
+  return await connection.query<PartitionChildInfo>(
+    `
+      WITH RECURSIVE tree AS (
+        SELECT i.inhrelid AS relid, i.inhparent AS parentid, 1 AS level
+        FROM pg_inherits i
+        JOIN pg_class p ON p.oid = i.inhparent
+        JOIN pg_namespace pn ON pn.oid = p.relnamespace
+        WHERE pn.nspname = $1
+          AND p.relname = $2
+          AND p.relkind = 'p'
+        UNION ALL
+        SELECT i.inhrelid, i.inhparent, tree.level + 1
+        FROM pg_inherits i
+        JOIN tree ON tree.relid = i.inhparent
+      )
+      SELECT
+        n.nspname AS schema_name,
+        c.relname AS table_name,
+        pn.nspname AS parent_schema,
+        p.relname AS parent_table,
+        pg_get_expr(c.relpartbound, c.oid) AS bound,
+        CASE WHEN c.relkind = 'p' THEN pg_get_partkeydef(c.oid) END AS partition_key,
+        tree.level
+      FROM tree
+      JOIN pg_class c ON c.oid = tree.relid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_class p ON p.oid = tree.parentid
+      JOIN pg_namespace pn ON pn.oid = p.relnamespace
+      WHERE c.relispartition
+      ORDER BY tree.level, p.relname, c.relname
+      `,
+    [schema, tableName]
+  );
+}
+
 export async function getTableGrants(
   connection: DatabaseConnection,
   schema: string,
@@ -428,42 +1028,200 @@ export async function getPolicies(
 ) {
   return await connection.query(
     `
-      SELECT 
-        policyname as policy,
-        cmd,
-        CASE 
-          WHEN roles IS NULL THEN NULL
-          ELSE roles
+      SELECT
+        pol.polname as policy,
+        CASE pol.polcmd
+          WHEN 'r' THEN 'SELECT'
+          WHEN 'a' THEN 'INSERT'
+          WHEN 'w' THEN 'UPDATE'
+          WHEN 'd' THEN 'DELETE'
+          ELSE 'ALL'
+        END as cmd,
+        -- PUBLIC-only policies have no TO clause; PUBLIC elsewhere is reported as 'PUBLIC'
+        CASE
+          WHEN pol.polroles = '{0}'::oid[] THEN NULL
+          ELSE ARRAY(
+            SELECT CASE WHEN role_oid = 0 THEN 'PUBLIC' ELSE pg_get_userbyid(role_oid)::text END
+            FROM unnest(pol.polroles) AS role_oid
+          )
         END as roles,
-        permissive,
-        qual as using,
-        with_check
-      FROM pg_policies
-      WHERE schemaname = $1 AND tablename = $2
-      ORDER BY policyname
+        CASE WHEN pol.polpermissive THEN 'PERMISSIVE' ELSE 'RESTRICTIVE' END as permissive,
+        pg_get_expr(pol.polqual, pol.polrelid) as using,
+        pg_get_expr(pol.polwithcheck, pol.polrelid) as with_check,
+        ARRAY(
+          SELECT DISTINCT pg_describe_object(d.refclassid, d.refobjid, 0)
+          FROM pg_depend d
+          WHERE d.classid = 'pg_policy'::regclass
+            AND d.objid = pol.oid
+            AND d.refclassid IN ('pg_proc'::regclass, 'pg_class'::regclass)
+            AND NOT (d.refclassid = 'pg_class'::regclass AND d.refobjid = pol.polrelid)
+          ORDER BY 1
+        ) as depends_on
+      FROM pg_policy pol
+      JOIN pg_class c ON c.oid = pol.polrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1 AND c.relname = $2
+      ORDER BY pol.polname
       `,
     [schema, tableName]
   );
 }
 
+/**
+ * Get the triggers of a table. Like pg_dump, the definitions are read with
+ * only pg_catalog on the search_path so pg_get_triggerdef() qualifies the
+ * table and function; the setting is local to this query's transaction, so
+ * do not run other queries on the connection concurrently.
+ */
 export async function getTriggers(
   connection: DatabaseConnection,
   schema: string,
   tableName: string
 ) {
-  return await connection.query(
+  await connection.query("BEGIN");
+  try {
+    await connection.query(
+      "SELECT set_config('search_path', 'pg_catalog', true)"
+    );
+    const triggers = await connection.query(
+      `
+        SELECT
+          t.tgname AS trigger_name,
+          CASE
+            WHEN t.tgtype & 2 <> 0 THEN 'BEFORE'
+            WHEN t.tgtype & 64 <> 0 THEN 'INSTEAD OF'
+            ELSE 'AFTER'
+          END AS action_timing,
+          array_to_string(ARRAY[
+            CASE WHEN t.tgtype & 4 <> 0 THEN 'INSERT' END,
+            CASE WHEN t.tgtype & 8 <> 0 THEN 'DELETE' END,
+            CASE WHEN t.tgtype & 16 <> 0 THEN 'UPDATE' END,
+            CASE WHEN t.tgtype & 32 <> 0 THEN 'TRUNCATE' END
+          ], ' OR ') AS event_manipulation,
+          CASE WHEN t.tgtype & 1 <> 0 THEN 'ROW' ELSE 'STATEMENT' END AS action_orientation,
+          substring(pg_get_triggerdef(t.oid) from 'EXECUTE (?:FUNCTION|PROCEDURE) .*$') AS action_statement,
+          NULL AS action_condition,
+          -- Triggers on the same event fire in name order
+          (ROW_NUMBER() OVER (
+            PARTITION BY t.tgtype & 67, t.tgtype & 60
+            ORDER BY t.tgname
+          ))::int AS action_order,
+          pg_get_triggerdef(t.oid) AS definition,
+          t.tgenabled AS enabled,
+          t.tgfoid AS function_oid,
+          fn.nspname AS function_schema,
+          p.proname AS function_name,
+          oidvectortypes(p.proargtypes) AS function_argument_types,
+          EXISTS (
+            SELECT 1 FROM pg_proc p2
+            WHERE p2.pronamespace = p.pronamespace
+              AND p2.proname = p.proname
+              AND p2.oid <> p.oid
+              AND p2.prokind IN ('f', 'p')
+          ) AS function_overloaded
+        FROM pg_trigger t
+        JOIN pg_class c ON c.oid = t.tgrelid
+        JOIN pg_namespace n ON n.oid = c.relnamespace
+        JOIN pg_proc p ON p.oid = t.tgfoid
+        JOIN pg_namespace fn ON fn.oid = p.pronamespace
+        WHERE n.nspname = $1
+          AND c.relname = $2
+          AND NOT t.tgisinternal
+          -- Skip triggers cloned from a partitioned parent (tgparentid exists on PostgreSQL 13+)
+          AND COALESCE((to_jsonb(t) ->> 'tgparentid')::oid, 0) = 0
+        ORDER BY t.tgname
+        `,
+      [schema, tableName]
+    );
+    await connection.query("COMMIT");
+    return triggers;
+  } catch (error) {
+    await connection.query("ROLLBACK");
+    throw error;
+  }
+}
+
+/**
+ * Get the sequences owned by a table's columns (OWNED BY, not identity)
+ */
+export async function getOwnedSequences(
+  connection: DatabaseConnection,
+  schema: string,
+  tableName: string
+): Promise<OwnedSequenceInfo[]> {
+  return await connection.query<OwnedSequenceInfo>(
     `
-      SELECT 
-        trigger_name,
-        action_timing,
-        event_manipulation,
-        action_orientation,
-        action_statement,
-        action_condition,
-        1 as action_order
-      FROM information_schema.triggers
-      WHERE trigger_schema = $1 AND event_object_table = $2
-      ORDER BY trigger_name, event_manipulation
+      SELECT
+        sn.nspname AS sequence_schema,
+        s.relname AS sequence_name,
+        a.attname AS column_name
+      FROM pg_depend d
+      JOIN pg_class s ON s.oid = d.objid AND s.relkind = 'S'
+      JOIN pg_namespace sn ON sn.oid = s.relnamespace
+      JOIN pg_class c ON c.oid = d.refobjid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      JOIN pg_attribute a ON a.attrelid = d.refobjid AND a.attnum = d.refobjsubid
+      WHERE d.classid = 'pg_class'::regclass
+        AND d.refclassid = 'pg_class'::regclass
+        AND d.deptype = 'a'  -- OWNED BY
+        AND n.nspname = $1
+        AND c.relname = $2
+      ORDER BY sn.nspname, s.relname
+      `,
+    [schema, tableName]
+  );
+}
+
+/**
+ * Get rewrite rules on a table
+ */
+export async function getRules(
+  connection: DatabaseConnection,
+  schema: string,
+  tableName: string
+): Promise<RuleInfo[]> {
+  return await connection.query<RuleInfo>(
+    `
+      SELECT
+        r.rulename AS rule_name,
+        pg_get_ruledef(r.oid, true) AS definition,
+        r.ev_enabled AS enabled
+      FROM pg_rewrite r
+      JOIN pg_class c ON c.oid = r.ev_class
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+        AND c.relname = $2
+        AND r.rulename <> '_RETURN'
+      ORDER BY r.rulename
+      `,
+    [schema, tableName]
+  );
+}
+
+/**
+ * Get extended statistics objects (CREATE STATISTICS) on a table
+ */
+export async function getStatistics(
+  connection: DatabaseConnection,
+  schema: string,
+  tableName: string
+): Promise<StatisticsInfo[]> {
+  return await connection.query<StatisticsInfo>(
+    `
+      SELECT
+        sn.nspname AS statistics_schema,
+        s.stxname AS statistics_name,
+        pg_get_statisticsobjdef(s.oid) AS definition,
+        -- stxstattarget only exists on PostgreSQL 13+ (NULL or -1 = default)
+        NULLIF((to_jsonb(s) ->> 'stxstattarget')::int, -1) AS statistics_target,
+        obj_description(s.oid, 'pg_statistic_ext') AS comment
+      FROM pg_statistic_ext s
+      JOIN pg_namespace sn ON sn.oid = s.stxnamespace
+      JOIN pg_class c ON c.oid = s.stxrelid
+      JOIN pg_namespace n ON n.oid = c.relnamespace
+      WHERE n.nspname = $1
+        AND c.relname = $2
+      ORDER BY sn.nspname, s.stxname
       `,
     [schema, tableName]
   );
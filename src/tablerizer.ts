@@ -4,16 +4,24 @@
 
 import fs from "fs/promises";
 import path from "path";
-import type { DatabaseConnection } from "./database.js";
+import type { DatabaseConnection, FunctionInfo } from "./database.js";
 import { createConnection } from "./database.js";
 import type { TablerizerOptions, ExportScope } from "./config.js";
 import { validateConfig, mergeConfigs, getDefaultConfig } from "./config.js";
 import {
   generateTableSQL,
   generateFunctionSQL,
+  functionFileName,
+  normalizeFunctionSignature,
+  generateViewSQL,
   generateMaterializedViewSQL,
-  applyRoleMappings,
+  generateSequenceSQL,
+  generateTypeSQL,
+  generateSchemaSQL,
+  reverseRoleMappings,
+  mapSchemaName,
 } from "./generators.js";
+import type { TableData } from "./generators.js";
 import * as queries from "./queries.js";
 
 export interface ExportResult {
@@ -22,16 +30,36 @@ export interface ExportResult {
   outputPath: string;
   tableFiles: number;
   functionFiles: number;
+  viewFiles: number;
   materializedViewFiles: number;
+  sequenceFiles: number;
+  typeFiles: number;
+  schemaFiles: number;
+  partitionFiles: number;
   files: Array<{
     schema: string;
     name: string;
-    type: "table" | "function" | "materialized-view";
+    type:
+      | "table"
+      | "function"
+      | "view"
+      | "materialized-view"
+      | "sequence"
+      | "type"
+      | "schema"
+      | "partition";
     filePath: string;
     size: number;
   }>;
 }
 
+export interface RehydrateResult {
+  sourcePath: string;
+  outputPath: string;
+  totalFiles: number;
+  files: string[];
+}
+
 export interface ExportProgress {
   schema: string;
   table: string;
@@ -106,13 +134,22 @@ export class Tablerizer {
     let totalFiles = 0;
     let tableFiles = 0;
     let functionFiles = 0;
+    let viewFiles = 0;
     let materializedViewFiles = 0;
+    let sequenceFiles = 0;
+    let typeFiles = 0;
+    let schemaFiles = 0;
+    let partitionFiles = 0;
 
     // Determine what to export based on scope
     const scope = this.normalizeScope(this.options.scope);
     const exportTables = scope.includes("tables");
     const exportFunctions = scope.includes("functions");
+    const exportViews = scope.includes("views");
     const exportMaterializedViews = scope.includes("materialized-views");
+    const exportSequences = scope.includes("sequences");
+    const exportTypes = scope.includes("types");
+    const exportSchemas = scope.includes("schemas");
 
     // Clean output directory if requested
     if (this.options.clean !== false) {
@@ -127,10 +164,61 @@ export class Tablerizer {
     // Ensure base output directory exists
     await fs.mkdir(baseOutputDir, { recursive: true });
 
+    // Trigger functions living outside the exported schemas (oid -> schema)
+    const externalTriggerFunctions = new Map<number, string>();
+    const trackTriggerFunctions = (tableData: TableData) => {
+      for (const trigger of tableData.triggers) {
+        if (
+          trigger.function_oid !== undefined &&
+          trigger.function_schema &&
+          !this.options.schemas.includes(trigger.function_schema)
+        ) {
+          externalTriggerFunctions.set(
+            trigger.function_oid,
+            trigger.function_schema
+          );
+        }
+      }
+    };
+
     for (const schema of this.options.schemas) {
-      const schemaOutputDir = path.join(baseOutputDir, schema);
+      // Files are laid out by target schema when schema_mappings renames it
+      const schemaOutputDir = path.join(
+        baseOutputDir,
+        mapSchemaName(schema, this.options.schema_mappings)
+      );
       await fs.mkdir(schemaOutputDir, { recursive: true });
 
+      // Export the schema itself (CREATE SCHEMA, owner, grants, comment, default privileges)
+      if (exportSchemas) {
+        const [schemaInfo, schemaGrants, defaultPrivileges] = await Promise.all([
+          queries.getSchemaInfo(this.connection!, schema),
+          queries.getSchemaGrants(this.connection!, schema, this.options.roles),
+          queries.getDefaultPrivileges(this.connection!, schema, this.options.roles),
+        ]);
+        const schemaSqlContent = generateSchemaSQL(
+          schemaInfo,
+          schemaGrants,
+          defaultPrivileges,
+          this.options.role_mappings,
+          this.options.include_date,
+          this.options.placeholder_style,
+          this.options.schema_mappings
+        );
+        const schemaFilePath = path.join(schemaOutputDir, "_schema.sql");
+        await fs.writeFile(schemaFilePath, schemaSqlContent);
+
+        files.push({
+          schema,
+          name: schema,
+          type: "schema",
+          filePath: schemaFilePath,
+          size: schemaSqlContent.length,
+        });
+        totalFiles++;
+        schemaFiles++;
+      }
+
       let progressCounter = 0;
       let totalItems = 0;
 
@@ -143,10 +231,22 @@ export class Tablerizer {
         const functions = await queries.getFunctions(this.connection!, schema);
         totalItems += functions.length;
       }
+      if (exportViews) {
+        const views = await queries.getViews(this.connection!, schema);
+        totalItems += views.length;
+      }
       if (exportMaterializedViews) {
         const matviews = await queries.getMaterializedViews(this.connection!, schema);
         totalItems += matviews.length;
       }
+      if (exportSequences) {
+        const sequences = await queries.getSequences(this.connection!, schema);
+        totalItems += sequences.length;
+      }
+      if (exportTypes) {
+        const types = await queries.getTypes(this.connection!, schema);
+        totalItems += types.length;
+      }
 
       // Export tables
       if (exportTables) {
@@ -166,14 +266,18 @@ export class Tablerizer {
           }
 
           // Get table data
-          const tableData = await queries.getTableData(this.connection!, schema, table.table_name, this.options.roles);
+          const tableData = await this.getTableData(schema, table.table_name);
+          trackTriggerFunctions(tableData);
 
           // Generate SQL content
           const sqlContent = generateTableSQL(
             schema,
             tableData,
             this.options.role_mappings,
-            this.options.include_date
+            this.options.include_date,
+            this.options.map_role_expressions,
+            this.options.placeholder_style,
+            this.options.schema_mappings
           );
 
           // Write file
@@ -191,12 +295,66 @@ export class Tablerizer {
           });
           totalFiles++;
           tableFiles++;
+
+          // Write one snapshot per partition below a partitioned table
+          if (this.options.partitions === "folder" && tableData.partition_info) {
+            const partitions = await queries.getPartitions(
+              this.connection!,
+              schema,
+              table.table_name
+            );
+
+            for (const partition of partitions) {
+              const partitionData = await this.getTableData(
+                partition.schema_name,
+                partition.table_name
+              );
+              trackTriggerFunctions(partitionData);
+
+              const partitionContent = generateTableSQL(
+                partition.schema_name,
+                partitionData,
+                this.options.role_mappings,
+                this.options.include_date,
+                this.options.map_role_expressions,
+                this.options.placeholder_style,
+                this.options.schema_mappings
+              );
+
+              // Partitions may live in another schema than their parent
+              const partitionPath = path.join(
+                baseOutputDir,
+                mapSchemaName(partition.schema_name, this.options.schema_mappings),
+                "partitions",
+                `${partition.table_name}.sql`
+              );
+              await fs.mkdir(path.dirname(partitionPath), { recursive: true });
+              await fs.writeFile(partitionPath, partitionContent);
+
+              files.push({
+                schema: partition.schema_name,
+                name: partition.table_name,
+                type: "partition",
+                filePath: partitionPath,
+                size: partitionContent.length,
+              });
+              totalFiles++;
+              partitionFiles++;
+            }
+          }
         }
       }
 
       // Export functions
       if (exportFunctions) {
         const functions = await queries.getFunctions(this.connection!, schema);
+        const overloadCounts = new Map<string, number>();
+        for (const func of functions) {
+          overloadCounts.set(
+            func.function_name,
+            (overloadCounts.get(func.function_name) || 0) + 1
+          );
+        }
 
         for (const func of functions) {
           progressCounter++;
@@ -211,38 +369,75 @@ export class Tablerizer {
             });
           }
 
-          // Generate SQL content
-          const sqlContent = generateFunctionSQL(
+          const { filePath, size } = await this.writeFunctionFile(
             func,
-            this.options.roles,
-            this.options.role_mappings,
-            this.options.include_date
+            (overloadCounts.get(func.function_name) || 0) > 1,
+            schemaOutputDir
           );
 
-          // Write file - handle function overloading by including arguments hash
-          let fileName = `${func.function_name}.sql`;
-          let filePath = path.join(schemaOutputDir, "functions", fileName);
+          files.push({
+            schema,
+            name: func.function_name,
+            type: "function",
+            filePath,
+            size,
+          });
+          totalFiles++;
+          functionFiles++;
+        }
+      }
+
+      // Export views
+      if (exportViews) {
+        const views = await queries.getViews(this.connection!, schema);
 
-          // Handle overloaded functions
-          let counter = 1;
-          while (files.some((f) => f.filePath === filePath)) {
-            fileName = `${func.function_name}_${counter}.sql`;
-            filePath = path.join(schemaOutputDir, "functions", fileName);
-            counter++;
+        for (const view of views) {
+          progressCounter++;
+
+          // Report progress
+          if (progressCallback) {
+            progressCallback({
+              schema,
+              table: view.view_name, // Using table field for compatibility
+              progress: progressCounter,
+              total: totalItems,
+            });
           }
 
+          // Get view columns and grants
+          const [columns, grants, columnGrants] = await Promise.all([
+            queries.getColumnDefinitions(this.connection!, schema, view.view_name),
+            queries.getTableGrants(this.connection!, schema, view.view_name, this.options.roles),
+            queries.getColumnGrants(this.connection!, schema, view.view_name, this.options.roles),
+          ]);
+
+          // Generate SQL content
+          const sqlContent = generateViewSQL(
+            view,
+            columns,
+            grants,
+            columnGrants,
+            this.options.role_mappings,
+            this.options.include_date,
+            this.options.placeholder_style,
+            this.options.schema_mappings
+          );
+
+          // Write file
+          const fileName = `${view.view_name}.sql`;
+          const filePath = path.join(schemaOutputDir, "views", fileName);
           await fs.mkdir(path.dirname(filePath), { recursive: true });
           await fs.writeFile(filePath, sqlContent);
 
           files.push({
             schema,
-            name: func.function_name,
-            type: "function",
+            name: view.view_name,
+            type: "view",
             filePath,
             size: sqlContent.length,
           });
           totalFiles++;
-          functionFiles++;
+          viewFiles++;
         }
       }
 
@@ -276,13 +471,26 @@ export class Tablerizer {
             matview.matview_name
           );
 
-          // Generate SQL content (documentation and grants only)
+          // Column comments are only rendered with executable DDL
+          const columns = this.options.materialized_view_ddl
+            ? await queries.getColumnDefinitions(
+                this.connection!,
+                schema,
+                matview.matview_name
+              )
+            : [];
+
+          // Generate SQL content (documentation and grants, or full DDL)
           const sqlContent = generateMaterializedViewSQL(
             matview,
             grants,
             indexes,
             this.options.role_mappings,
-            this.options.include_date
+            this.options.include_date,
+            this.options.materialized_view_ddl,
+            columns,
+            this.options.placeholder_style,
+            this.options.schema_mappings
           );
 
           // Write file
@@ -298,7 +506,7 @@ export class Tablerizer {
           files.push({
             schema,
             name: matview.matview_name,
-            type: "materialized-view" as any,
+            type: "materialized-view",
             filePath,
             size: sqlContent.length,
           });
@@ -306,6 +514,141 @@ export class Tablerizer {
           materializedViewFiles++;
         }
       }
+
+      // Export sequences
+      if (exportSequences) {
+        const sequences = await queries.getSequences(this.connection!, schema);
+
+        for (const sequence of sequences) {
+          progressCounter++;
+
+          // Report progress
+          if (progressCallback) {
+            progressCallback({
+              schema,
+              table: sequence.sequence_name, // Using table field for compatibility
+              progress: progressCounter,
+              total: totalItems,
+            });
+          }
+
+          const grants = await queries.getSequenceGrants(
+            this.connection!,
+            schema,
+            sequence.sequence_name,
+            this.options.roles
+          );
+
+          // Generate SQL content
+          const sqlContent = generateSequenceSQL(
+            sequence,
+            grants,
+            this.options.role_mappings,
+            this.options.include_date,
+            this.options.placeholder_style,
+            this.options.schema_mappings
+          );
+
+          // Write file
+          const fileName = `${sequence.sequence_name}.sql`;
+          const filePath = path.join(schemaOutputDir, "sequences", fileName);
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, sqlContent);
+
+          files.push({
+            schema,
+            name: sequence.sequence_name,
+            type: "sequence",
+            filePath,
+            size: sqlContent.length,
+          });
+          totalFiles++;
+          sequenceFiles++;
+        }
+      }
+
+      // Export types
+      if (exportTypes) {
+        const types = await queries.getTypes(this.connection!, schema);
+
+        for (const type of types) {
+          progressCounter++;
+
+          // Report progress
+          if (progressCallback) {
+            progressCallback({
+              schema,
+              table: type.type_name, // Using table field for compatibility
+              progress: progressCounter,
+              total: totalItems,
+            });
+          }
+
+          const grants = await queries.getTypeGrants(
+            this.connection!,
+            schema,
+            type.type_name,
+            this.options.roles
+          );
+
+          // Generate SQL content
+          const sqlContent = generateTypeSQL(
+            type,
+            grants,
+            this.options.role_mappings,
+            this.options.include_date,
+            this.options.placeholder_style,
+            this.options.schema_mappings
+          );
+
+          // Write file
+          const fileName = `${type.type_name}.sql`;
+          const filePath = path.join(schemaOutputDir, "types", fileName);
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(filePath, sqlContent);
+
+          files.push({
+            schema,
+            name: type.type_name,
+            type: "type",
+            filePath,
+            size: sqlContent.length,
+          });
+          totalFiles++;
+          typeFiles++;
+        }
+      }
+    }
+
+    // Pull in trigger functions from schemas that are not exported
+    if (this.options.include_trigger_functions) {
+      for (const schema of new Set(externalTriggerFunctions.values())) {
+        const functions = await queries.getFunctions(this.connection!, schema);
+
+        for (const func of functions) {
+          if (!externalTriggerFunctions.has(func.oid)) continue;
+
+          const { filePath, size } = await this.writeFunctionFile(
+            func,
+            functions.filter((f) => f.function_name === func.function_name)
+              .length > 1,
+            path.join(
+              baseOutputDir,
+              mapSchemaName(schema, this.options.schema_mappings)
+            )
+          );
+
+          files.push({
+            schema,
+            name: func.function_name,
+            type: "function",
+            filePath,
+            size,
+          });
+          totalFiles++;
+          functionFiles++;
+        }
+      }
     }
 
     return {
@@ -313,7 +656,12 @@ export class Tablerizer {
       totalFiles,
       tableFiles,
       functionFiles,
+      viewFiles,
       materializedViewFiles,
+      sequenceFiles,
+      typeFiles,
+      schemaFiles,
+      partitionFiles,
       outputPath: path.resolve(baseOutputDir),
       files,
     };
@@ -334,14 +682,17 @@ export class Tablerizer {
     }
 
     // Get table data
-    const tableData = await queries.getTableData(this.connection!, schema, tableName, this.options.roles);
+    const tableData = await this.getTableData(schema, tableName);
 
     // Generate SQL content
     const sqlContent = generateTableSQL(
       schema,
       tableData,
       this.options.role_mappings,
-      this.options.include_date
+      this.options.include_date,
+      this.options.map_role_expressions,
+      this.options.placeholder_style,
+      this.options.schema_mappings
     );
 
     // Write file if output path is provided
@@ -359,7 +710,8 @@ export class Tablerizer {
   async exportFunction(
     schema: string,
     functionName: string,
-    outputPath?: string
+    outputPath?: string,
+    signature?: string
   ): Promise<string> {
     validateConfig(this.options);
 
@@ -369,18 +721,53 @@ export class Tablerizer {
 
     // Get function data
     const functions = await queries.getFunctions(this.connection!, schema);
-    const func = functions.find((f) => f.function_name === functionName);
+    const overloads = functions.filter((f) => f.function_name === functionName);
+
+    // Without a signature the first overload (by argument types) is exported
+    if (signature === undefined && overloads.length > 1) {
+      conditionalLog(
+        `⚠️  Function ${schema}.${functionName} is overloaded, exporting (${overloads[0].argument_types}); pass a signature to pick one of: ` +
+          overloads.map((f) => `(${f.argument_types})`).join(", "),
+        this.options.silent ?? false
+      );
+    }
+
+    // Match either the identity arguments ("a integer") or the bare types ("integer")
+    const wanted =
+      signature !== undefined ? normalizeFunctionSignature(signature) : null;
+    const func =
+      wanted === null
+        ? overloads[0]
+        : overloads.find(
+            (f) =>
+              normalizeFunctionSignature(f.function_signature) === wanted ||
+              normalizeFunctionSignature(f.argument_types) === wanted
+          );
 
     if (!func) {
-      throw new Error(`Function ${schema}.${functionName} not found`);
+      throw new Error(
+        signature !== undefined
+          ? `Function ${schema}.${functionName}(${signature}) not found`
+          : `Function ${schema}.${functionName} not found`
+      );
     }
 
+    const grants = await queries.getFunctionGrants(
+      this.connection!,
+      func.oid,
+      this.options.roles
+    );
+
     // Generate SQL content
     const sqlContent = generateFunctionSQL(
       func,
       this.options.roles,
       this.options.role_mappings,
-      this.options.include_date
+      this.options.include_date,
+      this.options.drop_functions,
+      this.options.placeholder_style,
+      this.options.schema_mappings,
+      grants
     );
 
     // Write file if output path is provided
@@ -424,12 +811,137 @@ export class Tablerizer {
     }
   }
 
+  /**
+   * Reverse role mappings: copy every .sql snapshot below `out` (or sourceDir)
+   * to targetDir with placeholders replaced by concrete roles. Pattern
+   * mappings are rebuilt from role_mapping_captures. No database is needed.
+   */
+  async rehydrate(
+    targetDir: string,
+    sourceDir?: string
+  ): Promise<RehydrateResult> {
+    const sourcePath = path.resolve(sourceDir || this.options.out || "./tables");
+    const outputPath = path.resolve(targetDir);
+    const files: string[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.readdir(dir, { withFileTypes: true });
+      for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.name.endsWith(".sql")) {
+          const content = await fs.readFile(entryPath, "utf-8");
+          const filePath = path.join(
+            outputPath,
+            path.relative(sourcePath, entryPath)
+          );
+          await fs.mkdir(path.dirname(filePath), { recursive: true });
+          await fs.writeFile(
+            filePath,
+            reverseRoleMappings(
+              content,
+              this.options.role_mappings || {},
+              this.options.role_mapping_captures,
+              this.options.placeholder_style
+            )
+          );
+          files.push(filePath);
+        }
+      }
+    };
+    await walk(sourcePath);
+
+    return { sourcePath, outputPath, totalFiles: files.length, files };
+  }
+
+  /**
+   * Generate a function snapshot and write it to <schemaOutputDir>/functions/.
+   * Overloads are named after their argument types.
+   */
+  private async writeFunctionFile(
+    func: FunctionInfo,
+    overloaded: boolean,
+    schemaOutputDir: string
+  ): Promise<{ filePath: string; size: number }> {
+    const grants = await queries.getFunctionGrants(
+      this.connection!,
+      func.oid,
+      this.options.roles
+    );
+
+    const sqlContent = generateFunctionSQL(
+      func,
+      this.options.roles,
+      this.options.role_mappings,
+      this.options.include_date,
+      this.options.drop_functions,
+      this.options.placeholder_style,
+      this.options.schema_mappings,
+      grants
+    );
+
+    const filePath = path.join(
+      schemaOutputDir,
+      "functions",
+      functionFileName(func, overloaded)
+    );
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, sqlContent);
+
+    return { filePath, size: sqlContent.length };
+  }
+
+  /**
+   * Load table data, attaching its partitions when they are rendered inline
+   * and marking trigger functions whose snapshot is not part of the export
+   */
+  private async getTableData(schema: string, tableName: string) {
+    const tableData = await queries.getTableData(
+      this.connection!,
+      schema,
+      tableName,
+      this.options.roles
+    );
+
+    const exportsFunctions = this.normalizeScope(this.options.scope).includes(
+      "functions"
+    );
+    for (const trigger of tableData.triggers) {
+      if (trigger.function_schema) {
+        trigger.function_exported = this.options.schemas.includes(
+          trigger.function_schema
+        )
+          ? exportsFunctions
+          : this.options.include_trigger_functions ?? false;
+      }
+    }
+
+    if (this.options.partitions === "inline" && tableData.partition_info) {
+      tableData.partitions = await queries.getPartitions(
+        this.connection!,
+        schema,
+        tableName
+      );
+    }
+
+    return tableData;
+  }
+
   /**
    * Normalize scope configuration to array format
    */
   private normalizeScope(scope?: ExportScope | ExportScope[]): ExportScope[] {
     if (!scope || scope === "all") {
-      return ["tables", "functions", "views", "materialized-views"];
+      return [
+        "tables",
+        "functions",
+        "views",
+        "materialized-views",
+        "sequences",
+        "types",
+        "schemas",
+      ];
     }
     if (Array.isArray(scope)) {
       return scope;
@@ -12,5 +12,18 @@ import "./unit/rls.test.js";
 import "./unit/grants.test.js";
 import "./unit/column-grants.test.js";
 import "./unit/triggers.test.js";
+import "./unit/rules.test.js";
+import "./unit/statistics.test.js";
+import "./unit/escape-ident.test.js";
+import "./unit/escape-literal.test.js";
 import "./unit/role-mappings.test.js";
+import "./unit/schema-mappings.test.js";
 import "./unit/table-assembler.test.js";
+import "./unit/view.test.js";
+import "./unit/materialized-view.test.js";
+import "./unit/sequence.test.js";
+import "./unit/type.test.js";
+import "./unit/schema.test.js";
+import "./unit/default-privileges.test.js";
+import "./unit/function.test.js";
+import "./unit/partitions.test.js";
@@ -14,6 +14,9 @@ import "./integration/ddl-structure.test.js";
 import "./integration/constraints.test.js";
 import "./integration/indexes.test.js";
 import "./integration/comments.test.js";
+import "./integration/literals.test.js";
+import "./integration/types.test.js";
+import "./integration/sequences.test.js";
 import "./integration/rls.test.js";
 import "./integration/grants.test.js";
 import "./integration/triggers.test.js";
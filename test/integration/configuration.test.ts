@@ -1,4 +1,4 @@
-import { describe, it, beforeEach } from "node:test";
+import { describe, it, before, after, beforeEach } from "node:test";
 import assert from "node:assert/strict";
 import { readOutput, freshTablerizer, cleanOutput, db } from "../helpers.js";
 import type { Tablerizer } from "../../lib/index.js";
@@ -38,4 +38,43 @@ describe("Configuration", () => {
     assert.ok(!sql.includes("tablerizer_visitor"));
     await tablerizer.disconnect();
   });
+
+  it("should export mapped schemas under their new name", async () => {
+    tablerizer = freshTablerizer({
+      scope: "tables",
+      schema_mappings: { app_public: "tenant_42" },
+    });
+    await tablerizer.export();
+    const sql = await readOutput("tenant_42", "tables", "users");
+    assert.match(sql, /CREATE TABLE tenant_42\.users \(/);
+    assert.ok(
+      sql.split("\n").every((line) => line.startsWith("--") || !line.includes("app_public.")),
+    );
+    await tablerizer.disconnect();
+  });
+
+  describe("mapped function search_path", () => {
+    before(async () => {
+      await db.executeSQL(`
+        CREATE FUNCTION app_public.pinned_path() RETURNS integer
+          LANGUAGE sql SET search_path TO app_public, pg_temp AS 'SELECT 1';
+      `);
+    });
+
+    after(async () => {
+      await db.executeSQL(`DROP FUNCTION IF EXISTS app_public.pinned_path()`);
+    });
+
+    it("should point a pinned search_path at the mapped schema", async () => {
+      tablerizer = freshTablerizer({
+        scope: "functions",
+        schema_mappings: { app_public: "tenant_42" },
+      });
+      await tablerizer.export();
+      const sql = await readOutput("tenant_42", "functions", "pinned_path");
+      assert.match(sql, /SET search_path TO 'tenant_42', 'pg_temp'/);
+      assert.ok(!/^ SET search_path.*app_public/m.test(sql));
+      await tablerizer.disconnect();
+    });
+  });
 });
@@ -1,7 +1,7 @@
-import { describe, it, beforeEach } from "node:test";
+import { describe, it, before, after, beforeEach } from "node:test";
 import assert from "node:assert/strict";
 import fs from "fs/promises";
-import { readOutput, freshTablerizer, cleanOutput } from "../helpers.js";
+import { readOutput, freshTablerizer, cleanOutput, db } from "../helpers.js";
 import type { Tablerizer } from "../../lib/index.js";
 
 let tablerizer: Tablerizer;
@@ -37,4 +37,32 @@ describe("Function Export", () => {
     assert.match(sql, /COMMENT ON FUNCTION/);
     await tablerizer.disconnect();
   });
+
+  describe("overloaded functions", () => {
+    before(async () => {
+      await db.executeSQL(`
+        CREATE FUNCTION app_public.pick(a integer) RETURNS integer LANGUAGE sql AS 'SELECT a';
+        CREATE FUNCTION app_public.pick(a text) RETURNS text LANGUAGE sql AS 'SELECT a';
+      `);
+    });
+
+    after(async () => {
+      await db.executeSQL(`
+        DROP FUNCTION IF EXISTS app_public.pick(integer);
+        DROP FUNCTION IF EXISTS app_public.pick(text);
+      `);
+    });
+
+    it("should export the first overload without a signature", async () => {
+      const sql = await tablerizer.exportFunction("app_public", "pick");
+      assert.match(sql, /CREATE OR REPLACE FUNCTION app_public\.pick\(a integer\)/);
+      await tablerizer.disconnect();
+    });
+
+    it("should export the overload matching a signature", async () => {
+      const sql = await tablerizer.exportFunction("app_public", "pick", undefined, "text");
+      assert.match(sql, /CREATE OR REPLACE FUNCTION app_public\.pick\(a text\)/);
+      await tablerizer.disconnect();
+    });
+  });
 });
@@ -0,0 +1,76 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { readOutput, freshTablerizer, cleanOutput, db } from "../helpers.js";
+import { escapeComment } from "../../lib/generators.js";
+
+/** Comments that broke the old "$$ if it contains a quote" rule, and friends */
+const ADVERSARIAL_COMMENTS = [
+  "plain",
+  "it's",
+  "''",
+  "$$",
+  "it's $$ tricky $$",
+  "ends with a dollar $",
+  "it's $5$",
+  "quote ' and $tblz$ and $$",
+  "it's $$ then $tblz",
+  "backslash \\ and \\n stay literal, it's",
+  "@omit create\n@foreignKey (a) references b (c)|@fieldName x\nUse `select $$it's$$`",
+  "unicode ☃ 'snow' $$",
+];
+
+const ROUND_TRIP_TABLE = "app_public.literal_round_trip";
+
+beforeEach(async () => {
+  await cleanOutput();
+});
+
+async function readTableComment(): Promise<string | null> {
+  const rows = await db.query<{ comment: string | null }>(
+    `SELECT obj_description($1::regclass, 'pg_class') as comment`,
+    [ROUND_TRIP_TABLE],
+  );
+  return rows[0].comment;
+}
+
+describe("Literal round-trip", () => {
+  // Scoped to this suite so other suites never see the scratch table
+  before(async () => {
+    await db.executeSQL(`CREATE TABLE ${ROUND_TRIP_TABLE} (id int)`);
+  });
+
+  after(async () => {
+    await db.executeSQL(`DROP TABLE IF EXISTS ${ROUND_TRIP_TABLE}`);
+  });
+
+  it("should replay every adversarial comment unchanged", async () => {
+    for (const comment of ADVERSARIAL_COMMENTS) {
+      await db.executeSQL(
+        `COMMENT ON TABLE ${ROUND_TRIP_TABLE} IS ${escapeComment(comment)}`,
+      );
+      assert.equal(await readTableComment(), comment);
+    }
+  });
+
+  it("should export a comment that replays to the same text", async () => {
+    const comment = "say 'hi' with $$ body $$ and $";
+    await db.executeSQL(
+      `COMMENT ON TABLE ${ROUND_TRIP_TABLE} IS ${escapeComment(comment)}`,
+    );
+
+    const tablerizer = freshTablerizer();
+    tablerizer.configure({ scope: "tables" });
+    await tablerizer.export();
+    await tablerizer.disconnect();
+
+    const sql = await readOutput("app_public", "tables", "literal_round_trip");
+    const statement = sql
+      .split("\n")
+      .find((line) => line.startsWith(`COMMENT ON TABLE ${ROUND_TRIP_TABLE} IS`));
+    assert.ok(statement, "COMMENT ON TABLE expected");
+
+    await db.executeSQL(`COMMENT ON TABLE ${ROUND_TRIP_TABLE} IS NULL`);
+    await db.executeSQL(statement);
+    assert.equal(await readTableComment(), comment);
+  });
+});
@@ -1,6 +1,6 @@
-import { describe, it, beforeEach } from "node:test";
+import { describe, it, before, after, beforeEach } from "node:test";
 import assert from "node:assert/strict";
-import { readOutput, freshTablerizer, cleanOutput } from "../helpers.js";
+import { readOutput, freshTablerizer, cleanOutput, db } from "../helpers.js";
 import type { Tablerizer } from "../../lib/index.js";
 
 let tablerizer: Tablerizer;
@@ -29,4 +29,28 @@ describe("Partitioned Tables", () => {
     assert.equal(salesFiles[0].name, "sales");
     await tablerizer.disconnect();
   });
+
+  describe("partition in another schema", () => {
+    before(async () => {
+      await db.executeSQL(`
+        CREATE TABLE app_public.events (id int, at date) PARTITION BY RANGE (at);
+        CREATE TABLE app_private.events_2020 PARTITION OF app_public.events
+          FOR VALUES FROM ('2020-01-01') TO ('2021-01-01');
+      `);
+    });
+
+    after(async () => {
+      await db.executeSQL(`DROP TABLE IF EXISTS app_public.events`);
+    });
+
+    it("should write folder partitions below their own schema", async () => {
+      tablerizer.configure({ scope: "tables", partitions: "folder" });
+      const result = await tablerizer.export();
+      const partition = result.files.find((f) => f.name === "events_2020");
+      assert.equal(partition?.schema, "app_private");
+      const sql = await readOutput("app_private", "partitions", "events_2020");
+      assert.match(sql, /PARTITION OF app_public\.events/);
+      await tablerizer.disconnect();
+    });
+  });
 });
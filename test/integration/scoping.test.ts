@@ -17,6 +17,7 @@ describe("Scoping", () => {
     assert.ok(result.tableFiles > 0);
     assert.ok(result.functionFiles > 0);
     assert.ok(result.materializedViewFiles > 0);
+    assert.ok(result.schemaFiles > 0);
     await tablerizer.disconnect();
   });
 
@@ -26,6 +27,16 @@ describe("Scoping", () => {
     assert.ok(result.tableFiles > 0);
     assert.equal(result.functionFiles, 0);
     assert.equal(result.materializedViewFiles, 0);
+    assert.equal(result.schemaFiles, 0);
+    await tablerizer.disconnect();
+  });
+
+  it('scope "schemas" should only export schema snapshots', async () => {
+    tablerizer.configure({ scope: "schemas" });
+    const result = await tablerizer.export();
+    assert.ok(result.schemaFiles > 0);
+    assert.equal(result.tableFiles, 0);
+    assert.equal(result.functionFiles, 0);
     await tablerizer.disconnect();
   });
 });
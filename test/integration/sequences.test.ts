@@ -0,0 +1,49 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { readOutput, freshTablerizer, cleanOutput, db } from "../helpers.js";
+
+beforeEach(async () => {
+  await cleanOutput();
+});
+
+async function sequenceOwner(): Promise<string | null> {
+  const rows = await db.query<{ owner: string | null }>(
+    `SELECT pg_get_serial_sequence('app_public.serial_owner', 'id') as owner`,
+  );
+  return rows[0].owner;
+}
+
+describe("Owned sequence replay", () => {
+  // Scoped to this suite so other suites never see the scratch table
+  before(async () => {
+    await db.executeSQL(`CREATE TABLE app_public.serial_owner (id serial, label text)`);
+  });
+
+  after(async () => {
+    await db.executeSQL(`DROP TABLE IF EXISTS app_public.serial_owner`);
+  });
+
+  it("should replay sequence then table, on a fresh and an existing database", async () => {
+    // No role placeholders, the snapshots are replayed as is
+    const tablerizer = freshTablerizer({ scope: ["sequences", "tables"], role_mappings: {} });
+    await tablerizer.export();
+    await tablerizer.disconnect();
+
+    const sequenceSQL = await readOutput("app_public", "sequences", "serial_owner_id_seq");
+    const tableSQL = await readOutput("app_public", "tables", "serial_owner");
+    assert.ok(!sequenceSQL.includes("OWNED BY"));
+    assert.match(tableSQL, /OWNED BY app_public\.serial_owner\.id;/);
+
+    // Fresh: the table and its owned sequence are gone
+    await db.executeSQL(`DROP TABLE app_public.serial_owner`);
+    await db.executeSQL(sequenceSQL);
+    await db.executeSQL(tableSQL);
+    assert.equal(await sequenceOwner(), "app_public.serial_owner_id_seq");
+
+    // Existing: DROP TABLE ... CASCADE must not take the sequence with it
+    await db.executeSQL(sequenceSQL);
+    await db.executeSQL(tableSQL);
+    await db.executeSQL(`INSERT INTO app_public.serial_owner (label) VALUES ('x')`);
+    assert.equal(await sequenceOwner(), "app_public.serial_owner_id_seq");
+  });
+});
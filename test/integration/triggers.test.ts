@@ -1,6 +1,6 @@
-import { describe, it, beforeEach } from "node:test";
+import { describe, it, before, after, beforeEach } from "node:test";
 import assert from "node:assert/strict";
-import { readOutput, freshTablerizer, cleanOutput } from "../helpers.js";
+import { readOutput, freshTablerizer, cleanOutput, db } from "../helpers.js";
 import type { Tablerizer } from "../../lib/index.js";
 
 let tablerizer: Tablerizer;
@@ -38,4 +38,35 @@ describe("Triggers", () => {
     assert.ok(!sql.includes("-- TRIGGERS"), "logs table should not have TRIGGERS section");
     await tablerizer.disconnect();
   });
+
+  describe("in a schema on the search_path", () => {
+    // Scoped to this suite so other suites never see the scratch objects
+    before(async () => {
+      await db.executeSQL(`
+        CREATE TABLE public.search_path_trigger_target (id int);
+        CREATE FUNCTION public.search_path_trigger_fn() RETURNS trigger
+          LANGUAGE plpgsql AS $$ BEGIN RETURN NEW; END $$;
+        CREATE TRIGGER search_path_trigger AFTER INSERT ON public.search_path_trigger_target
+          FOR EACH ROW EXECUTE FUNCTION public.search_path_trigger_fn();
+      `);
+    });
+
+    after(async () => {
+      await db.executeSQL(`
+        DROP TABLE IF EXISTS public.search_path_trigger_target;
+        DROP FUNCTION IF EXISTS public.search_path_trigger_fn();
+      `);
+    });
+
+    it("should still schema-qualify the table and the function", async () => {
+      tablerizer.configure({ schemas: ["public"], scope: "tables" });
+      await tablerizer.export();
+      const sql = await readOutput("public", "tables", "search_path_trigger_target");
+      assert.match(
+        sql,
+        /CREATE TRIGGER search_path_trigger AFTER INSERT ON public\.search_path_trigger_target FOR EACH ROW EXECUTE FUNCTION public\.search_path_trigger_fn\(\);/,
+      );
+      await tablerizer.disconnect();
+    });
+  });
 });
@@ -0,0 +1,72 @@
+import { describe, it, before, after, beforeEach } from "node:test";
+import assert from "node:assert/strict";
+import { readOutput, freshTablerizer, cleanOutput, db } from "../helpers.js";
+
+beforeEach(async () => {
+  await cleanOutput();
+});
+
+describe("Type export", () => {
+  // Scoped to this suite so other suites never see the scratch types
+  before(async () => {
+    await db.executeSQL(
+      `CREATE TYPE app_public.ticket_status AS ENUM ('open', 'in progress', 'it''s done')`,
+    );
+    await db.executeSQL(`CREATE DOMAIN app_public.positive_int AS integer CHECK (VALUE > 0)`);
+    await db.executeSQL(`CREATE TABLE app_public.type_usage (id app_public.positive_int)`);
+    await db.executeSQL(`INSERT INTO app_public.type_usage VALUES (42)`);
+    await db.executeSQL(`CREATE TYPE app_public.text_span AS RANGE (subtype = text, collation = "C")`);
+  });
+
+  after(async () => {
+    await db.executeSQL(`DROP TABLE IF EXISTS app_public.type_usage`);
+    await db.executeSQL(`DROP DOMAIN IF EXISTS app_public.positive_int`);
+    await db.executeSQL(`DROP TYPE IF EXISTS app_public.ticket_status`);
+    await db.executeSQL(`DROP TYPE IF EXISTS app_public.text_span`);
+  });
+
+  it("should export enum labels in sort order", async () => {
+    const tablerizer = freshTablerizer({ scope: "types" });
+    await tablerizer.export();
+    await tablerizer.disconnect();
+
+    const sql = await readOutput("app_public", "types", "ticket_status");
+    assert.match(
+      sql,
+      /CREATE TYPE app_public\.ticket_status AS ENUM \(\n    'open',\n    'in progress',\n    'it''s done'\n\);/,
+    );
+  });
+
+  it("should keep a range's non-default collation", async () => {
+    const tablerizer = freshTablerizer({ scope: "types" });
+    await tablerizer.export();
+    await tablerizer.disconnect();
+
+    const sql = await readOutput("app_public", "types", "text_span");
+    assert.match(
+      sql,
+      /CREATE TYPE app_public\.text_span AS RANGE \(\n    subtype = text,\n    collation = pg_catalog\."C"\n\);/,
+    );
+  });
+
+  it("should not crash the default export on enums", async () => {
+    const tablerizer = freshTablerizer();
+    const result = await tablerizer.export();
+    await tablerizer.disconnect();
+
+    assert.ok(result.typeFiles > 0);
+  });
+
+  it("should refuse to replay a domain that is in use instead of dropping columns", async () => {
+    const tablerizer = freshTablerizer({ scope: "types" });
+    await tablerizer.export();
+    await tablerizer.disconnect();
+
+    const sql = await readOutput("app_public", "types", "positive_int");
+    assert.match(sql, /DROP DOMAIN IF EXISTS app_public\.positive_int;/);
+    await assert.rejects(db.executeSQL(sql), /depend/);
+
+    const rows = await db.query<{ id: number }>(`SELECT id FROM app_public.type_usage`);
+    assert.deepEqual(rows.map((row) => row.id), [42]);
+  });
+});
@@ -140,6 +140,15 @@ export class TestDatabase {
     await this.pool.query(sql);
   }
 
+  /** Run a query on the test database and return its rows */
+  async query<T = any>(sql: string, params?: unknown[]): Promise<T[]> {
+    if (!this.pool) {
+      this.pool = new Pool({ connectionString: this.databaseUrl });
+    }
+    const result = await this.pool.query(sql, params);
+    return result.rows;
+  }
+
   /** Tear down everything */
   async teardown(): Promise<void> {
     if (this.pool) {
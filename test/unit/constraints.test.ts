@@ -44,13 +44,42 @@ describe("generateConstraintsSQL", () => {
     assert.equal(generateConstraintsSQL("s", "t", []).length, 0);
   });
 
-  it("should filter out system-generated constraints with numeric prefixes", () => {
-    const withSystem: ConstraintDefinition[] = [
-      { constraint_name: "123_456_789_not_null", constraint_type: "c", definition: "CHECK ((x IS NOT NULL))" },
-      { constraint_name: "real_check", constraint_type: "c", definition: "CHECK ((x > 0))" },
+  it("should filter out NOT NULL and inherited constraints", () => {
+    const withInherited: ConstraintDefinition[] = [
+      { constraint_name: "t_x_not_null", constraint_type: "n", definition: "NOT NULL x" },
+      { constraint_name: "parent_check", constraint_type: "c", definition: "CHECK ((x > 0))", is_local: false, inherit_count: 1 },
+      { constraint_name: "merged_check", constraint_type: "c", definition: "CHECK ((x < 10))", is_local: true, inherit_count: 1 },
+      { constraint_name: "real_check", constraint_type: "c", definition: "CHECK ((x > 0))", is_local: true, inherit_count: 0 },
     ];
-    const result = join(generateConstraintsSQL("s", "t", withSystem));
-    assert.ok(!result.includes("123_456_789_not_null"));
+    const result = join(generateConstraintsSQL("s", "t", withInherited));
+    assert.ok(!result.includes("t_x_not_null"));
+    assert.ok(!result.includes("parent_check"));
+    assert.ok(!result.includes("merged_check"));
     assert.ok(result.includes("real_check"));
   });
+
+  it("should keep NOT VALID and add a commented VALIDATE CONSTRAINT", () => {
+    const result = join(
+      generateConstraintsSQL("s", "t", [
+        { constraint_name: "t_fk", constraint_type: "f", definition: "FOREIGN KEY (ref_id) REFERENCES other(id) NOT VALID", validated: false },
+        { constraint_name: "t_check", constraint_type: "c", definition: "CHECK ((age > 0))", validated: false },
+      ]),
+    );
+    assert.match(result, /ADD CONSTRAINT t_fk FOREIGN KEY \(ref_id\) REFERENCES other\(id\) NOT VALID;/);
+    assert.match(result, /ADD CONSTRAINT t_check CHECK \(\(age > 0\)\) NOT VALID;/);
+    assert.match(result, /^-- ALTER TABLE s\.t VALIDATE CONSTRAINT t_fk;$/m);
+    assert.match(result, /^-- ALTER TABLE s\.t VALIDATE CONSTRAINT t_check;$/m);
+    assert.ok(!join(generateConstraintsSQL("s", "t", constraints)).includes("VALIDATE"));
+  });
+
+  it("should warn about foreign keys without a supporting index", () => {
+    const result = join(
+      generateConstraintsSQL("s", "t", [
+        { ...constraints[2], fk_indexed: false },
+        { constraint_name: "t_other_fk", constraint_type: "f", definition: "FOREIGN KEY (other_id) REFERENCES other(id)", fk_indexed: true },
+      ]),
+    );
+    assert.equal(result.match(/-- WARNING: no index/g)!.length, 1);
+    assert.ok(result.indexOf("-- WARNING") < result.indexOf("DROP CONSTRAINT IF EXISTS t_fk;"));
+  });
 });
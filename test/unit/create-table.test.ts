@@ -58,4 +58,165 @@ describe("generateCreateTableSQL", () => {
     // Last should NOT
     assert.ok(!lines[2].endsWith(","));
   });
+
+  it("should render identity columns with their sequence options", () => {
+    const result = join(
+      generateCreateTableSQL("s", "t", [
+        {
+          ...cols[0],
+          column_default: null,
+          identity: "a",
+          identity_sequence: {
+            sequence_schema: "s",
+            sequence_name: "t_id_seq",
+            start_value: "1",
+            increment_by: "1",
+            min_value: "1",
+            max_value: "2147483647",
+            cache_size: "1",
+            cycle: false,
+          },
+        },
+      ], null),
+    );
+    assert.match(
+      result,
+      /id integer NOT NULL GENERATED ALWAYS AS IDENTITY \(SEQUENCE NAME s\.t_id_seq START WITH 1 INCREMENT BY 1 MINVALUE 1 MAXVALUE 2147483647 CACHE 1 NO CYCLE\)/,
+    );
+    assert.ok(!result.includes("DEFAULT"));
+
+    const byDefault = join(
+      generateCreateTableSQL("s", "t", [{ ...cols[0], column_default: null, identity: "d" }], null),
+    );
+    assert.match(byDefault, /GENERATED BY DEFAULT AS IDENTITY$/m);
+  });
+
+  it("should render stored generated columns instead of a DEFAULT", () => {
+    const result = join(
+      generateCreateTableSQL("s", "t", [
+        { ...cols[1], not_null: false, column_default: "lower(name)", generated: "s" },
+      ], null),
+    );
+    assert.match(result, /name text GENERATED ALWAYS AS \(lower\(name\)\) STORED/);
+    assert.ok(!result.includes("DEFAULT"));
+  });
+
+  it("should render virtual generated columns instead of a DEFAULT", () => {
+    const result = join(
+      generateCreateTableSQL("s", "t", [
+        { ...cols[1], not_null: false, column_default: "lower(name)", generated: "v" },
+      ], null),
+    );
+    assert.match(result, /name text GENERATED ALWAYS AS \(lower\(name\)\) VIRTUAL/);
+    assert.ok(!result.includes("DEFAULT"));
+  });
+
+  it("should include COMPRESSION and COLLATE inline", () => {
+    const result = join(
+      generateCreateTableSQL("s", "t", [
+        { ...cols[1], compression: "lz4", collation: 'pg_catalog."C"' },
+      ], null),
+    );
+    assert.match(result, /name text COMPRESSION lz4 COLLATE pg_catalog\."C" NOT NULL/);
+  });
+
+  it("should set STORAGE and STATISTICS after the CREATE TABLE", () => {
+    const result = join(
+      generateCreateTableSQL("s", "t", [
+        { ...cols[1], storage: "EXTERNAL", statistics: 500 },
+      ], null),
+    );
+    assert.match(result, /\);\n\nALTER TABLE ONLY s\.t ALTER COLUMN name SET STORAGE EXTERNAL;/);
+    assert.match(result, /ALTER TABLE ONLY s\.t ALTER COLUMN name SET STATISTICS 500;/);
+  });
+
+  it("should render UNLOGGED, USING, WITH and TABLESPACE from storage settings", () => {
+    const result = join(
+      generateCreateTableSQL("s", "t", cols, null, {
+        persistence: "u",
+        options: ["fillfactor=70", "autovacuum_enabled=false"],
+        tablespace: "fast",
+        access_method: "columnar",
+        replica_identity: "d",
+        replica_identity_index: null,
+      }),
+    );
+    assert.match(result, /^CREATE UNLOGGED TABLE s\.t \(/);
+    assert.match(
+      result,
+      /^\) USING columnar WITH \(fillfactor=70, autovacuum_enabled=false\) TABLESPACE fast;$/m,
+    );
+  });
+
+  it("should put PARTITION BY before storage clauses", () => {
+    const result = join(
+      generateCreateTableSQL(
+        "s",
+        "t",
+        cols,
+        { partition_strategy: "r", partition_key: "RANGE (id)" },
+        { persistence: "p", options: null, tablespace: "fast", access_method: null, replica_identity: "d", replica_identity_index: null },
+      ),
+    );
+    assert.match(result, /\) PARTITION BY RANGE \(id\) TABLESPACE fast;/);
+  });
+
+  it("should create a partition with PARTITION OF instead of a column list", () => {
+    const result = join(
+      generateCreateTableSQL("s", "sales_2024", cols, null, null, {
+        parent_schema: "s",
+        parent_table: "sales",
+        bound: "FOR VALUES FROM ('2024-01-01') TO ('2025-01-01')",
+      }),
+    );
+    assert.equal(
+      result,
+      "CREATE TABLE s.sales_2024 PARTITION OF s.sales\n    FOR VALUES FROM ('2024-01-01') TO ('2025-01-01');",
+    );
+  });
+
+  it("should omit purely inherited columns and add INHERITS", () => {
+    const result = join(
+      generateCreateTableSQL(
+        "s",
+        "child",
+        [{ ...cols[0], is_local: false }, { ...cols[1], is_local: true }, cols[2]],
+        null,
+        null,
+        null,
+        { inherits: ["s.parent", "s.other"], of_type: null },
+      ),
+    );
+    assert.ok(!result.includes("id integer"));
+    assert.match(result, /name text NOT NULL,\n    active boolean DEFAULT true\n\) INHERITS \(s\.parent, s\.other\);/);
+  });
+
+  it("should render an empty column list when every column is inherited", () => {
+    const result = join(
+      generateCreateTableSQL("s", "child", [{ ...cols[0], is_local: false }], null, null, null, {
+        inherits: ["s.parent"],
+        of_type: null,
+      }),
+    );
+    assert.equal(result, "CREATE TABLE s.child () INHERITS (s.parent);");
+  });
+
+  it("should use OF type and only list columns with options", () => {
+    const result = join(
+      generateCreateTableSQL("s", "t", cols, null, null, null, { inherits: [], of_type: "s.row_type" }),
+    );
+    assert.match(result, /^CREATE TABLE s\.t OF s\.row_type \($/m);
+    assert.match(result, /id WITH OPTIONS NOT NULL DEFAULT nextval/);
+    assert.match(result, /name WITH OPTIONS NOT NULL/);
+    assert.match(result, /active WITH OPTIONS DEFAULT true/);
+    assert.ok(!result.includes("integer"));
+
+    const bare = join(
+      generateCreateTableSQL("s", "t", [{ ...cols[2], column_default: null }], null, null, null, {
+        inherits: [],
+        of_type: "s.row_type",
+      }),
+    );
+    assert.equal(bare, "CREATE TABLE s.t OF s.row_type;");
+  });
 });
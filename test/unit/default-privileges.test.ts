@@ -0,0 +1,55 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateDefaultPrivilegesSQL, generateSchemaSQL } from "../../lib/generators.js";
+import type { DefaultPrivilegeInfo } from "../../lib/database.js";
+import { join } from "./fixtures.js";
+
+describe("generateDefaultPrivilegesSQL", () => {
+  const defaults: DefaultPrivilegeInfo[] = [
+    { role: "owner", object_type: "f", grantor: "owner", grantee: "visitor", privilege: "EXECUTE", is_grantable: false },
+    { role: "owner", object_type: "r", grantor: "owner", grantee: "visitor", privilege: "UPDATE", is_grantable: false },
+    { role: "owner", object_type: "r", grantor: "owner", grantee: "visitor", privilege: "SELECT", is_grantable: false },
+    { role: "owner", object_type: "S", grantor: "owner", grantee: "visitor", privilege: "USAGE", is_grantable: false },
+  ];
+
+  it("should group privileges per role, object type and grantee", () => {
+    const result = join(generateDefaultPrivilegesSQL("s", defaults));
+    assert.match(
+      result,
+      /ALTER DEFAULT PRIVILEGES FOR ROLE owner IN SCHEMA s GRANT SELECT, UPDATE ON TABLES TO visitor;/,
+    );
+  });
+
+  it("should sort by object type: TABLES, SEQUENCES, FUNCTIONS, TYPES", () => {
+    const result = join(generateDefaultPrivilegesSQL("s", defaults));
+    const tables = result.indexOf("GRANT SELECT, UPDATE ON TABLES");
+    const sequences = result.indexOf("GRANT USAGE ON SEQUENCES");
+    const functions = result.indexOf("GRANT EXECUTE ON FUNCTIONS");
+    assert.ok(tables >= 0 && tables < sequences && sequences < functions);
+  });
+
+  it("should revoke before granting", () => {
+    const result = join(generateDefaultPrivilegesSQL("s", defaults));
+    const revoke = result.indexOf("IN SCHEMA s REVOKE ALL ON TABLES FROM visitor;");
+    const grant = result.indexOf("IN SCHEMA s GRANT SELECT, UPDATE ON TABLES TO visitor;");
+    assert.ok(revoke >= 0 && revoke < grant);
+  });
+
+  it("should return empty array for no default privileges", () => {
+    assert.equal(generateDefaultPrivilegesSQL("s", []).length, 0);
+  });
+
+  it("should be rendered in a DEFAULT PRIVILEGES section of the schema snapshot with role mappings", () => {
+    const result = generateSchemaSQL(
+      { schema_name: "s", owner: "owner", comment: null },
+      [],
+      defaults,
+      { owner: ":DATABASE_OWNER", visitor: ":DATABASE_GUEST" },
+    );
+    assert.ok(result.includes("-- DEFAULT PRIVILEGES"));
+    assert.match(
+      result,
+      /ALTER DEFAULT PRIVILEGES FOR ROLE :DATABASE_OWNER IN SCHEMA s GRANT EXECUTE ON FUNCTIONS TO :DATABASE_GUEST;/,
+    );
+  });
+});
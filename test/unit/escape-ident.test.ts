@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  escapeIdent,
+  escapeQualifiedIdent,
+  escapeRole,
+  generateDropTableSQL,
+  generateGrantsSQL,
+} from "../../lib/generators.js";
+
+describe("escapeIdent", () => {
+  it("should leave plain lowercase identifiers bare", () => {
+    assert.equal(escapeIdent("app_user"), "app_user");
+    assert.equal(escapeIdent("_t1"), "_t1");
+  });
+
+  it("should quote mixed case, leading digits and special characters", () => {
+    assert.equal(escapeIdent("MyTable"), '"MyTable"');
+    assert.equal(escapeIdent("1st"), '"1st"');
+    assert.equal(escapeIdent("my table"), '"my table"');
+    assert.equal(escapeIdent("a$b"), '"a$b"');
+  });
+
+  it("should quote reserved and non-unreserved keywords only", () => {
+    assert.equal(escapeIdent("user"), '"user"');
+    assert.equal(escapeIdent("order"), '"order"');
+    assert.equal(escapeIdent("left"), '"left"');
+    assert.equal(escapeIdent("integer"), '"integer"');
+    // Unreserved keywords are valid bare identifiers
+    assert.equal(escapeIdent("name"), "name");
+    assert.equal(escapeIdent("comment"), "comment");
+  });
+
+  it("should double embedded double quotes", () => {
+    assert.equal(escapeIdent('say "hi"'), '"say ""hi"""');
+  });
+});
+
+describe("escapeQualifiedIdent", () => {
+  it("should quote schema and name independently", () => {
+    assert.equal(escapeQualifiedIdent("app", "Order"), 'app."Order"');
+    assert.equal(
+      generateDropTableSQL("Sales", "user")[0],
+      'DROP TABLE IF EXISTS "Sales"."user" CASCADE;',
+    );
+  });
+});
+
+describe("escapeRole", () => {
+  it("should keep PUBLIC as a keyword", () => {
+    assert.equal(escapeRole("PUBLIC"), "PUBLIC");
+    assert.equal(escapeRole("Admin"), '"Admin"');
+    const result = generateGrantsSQL("s", "t", [
+      { grantor: "o", grantee: "PUBLIC", privilege: "SELECT", is_grantable: false },
+    ]);
+    assert.ok(result.includes("GRANT SELECT ON TABLE s.t TO PUBLIC;"));
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  quoteLiteral,
+  dollarQuote,
+  escapeComment,
+  generateCommentsSQL,
+} from "../../lib/generators.js";
+
+describe("quoteLiteral", () => {
+  it("should double single quotes", () => {
+    assert.equal(quoteLiteral("it's"), "'it''s'");
+    assert.equal(quoteLiteral("plain"), "'plain'");
+  });
+});
+
+describe("dollarQuote", () => {
+  it("should use $$ when the text cannot close it", () => {
+    assert.equal(dollarQuote("it's"), "$$it's$$");
+  });
+
+  it("should switch to $tblz$ when the text contains $$ or ends with $", () => {
+    assert.equal(dollarQuote("a $$ b"), "$tblz$a $$ b$tblz$");
+    assert.equal(dollarQuote("costs 5$"), "$tblz$costs 5$$tblz$");
+  });
+
+  it("should number the tag until it is unique", () => {
+    assert.equal(dollarQuote("$$ and $tblz$"), "$tblz1$$$ and $tblz$$tblz1$");
+    assert.equal(dollarQuote("$$ then x$tblz"), "$tblz1$$$ then x$tblz$tblz1$");
+  });
+});
+
+describe("escapeComment", () => {
+  it("should quote plainly without single quotes, even with $$", () => {
+    assert.equal(escapeComment("@omit create $$"), "'@omit create $$'");
+  });
+
+  it("should dollar-quote comments holding single quotes and $$", () => {
+    const result = generateCommentsSQL("s", "t", "say 'hi' with $$ body $$", []);
+    assert.equal(
+      result[0],
+      "COMMENT ON TABLE s.t IS $tblz$say 'hi' with $$ body $$$tblz$;",
+    );
+  });
+});
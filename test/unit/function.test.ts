@@ -0,0 +1,164 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateFunctionSQL, functionFileName, normalizeFunctionSignature } from "../../lib/generators.js";
+import type { FunctionInfo } from "../../lib/database.js";
+
+describe("generateFunctionSQL", () => {
+  const func: FunctionInfo = {
+    oid: 1,
+    schema_name: "s",
+    function_name: "f",
+    function_signature: "a integer",
+    argument_types: "integer",
+    function_definition: "CREATE OR REPLACE FUNCTION s.f(a integer)\n RETURNS integer\n LANGUAGE sql\nAS $function$ SELECT a $function$\n",
+    return_type: "integer",
+    language: "sql",
+    volatility: "STABLE",
+    security_definer: false,
+    function_arguments: "a integer DEFAULT 1",
+    function_type: "FUNCTION",
+    is_security_definer: false,
+    comment: null,
+    public_execute: true,
+    owner: "owner",
+    is_strict: true,
+    is_leakproof: false,
+    parallel: "SAFE",
+    cost: 100,
+    rows: 0,
+    config: null,
+  };
+  const grants = [
+    { grantor: "owner", grantee: "visitor", privilege: "EXECUTE", is_grantable: false },
+  ];
+  const withGrants = (f: FunctionInfo, roles?: string[]) =>
+    generateFunctionSQL(f, roles, undefined, false, false, undefined, undefined, grants);
+
+  it("should only grant EXECUTE to roles that hold it", () => {
+    const result = withGrants(func);
+    assert.match(result, /REVOKE ALL ON FUNCTION s\.f\(a integer\) FROM visitor;/);
+    assert.match(result, /GRANT EXECUTE ON FUNCTION s\.f\(a integer\) TO visitor;/);
+    assert.equal(result.match(/GRANT EXECUTE/g)!.length, 1);
+  });
+
+  it("should only grant to the requested roles", () => {
+    assert.ok(!withGrants(func, ["other"]).includes("GRANT EXECUTE"));
+    assert.match(withGrants(func, ["visitor"]), /GRANT EXECUTE ON FUNCTION s\.f\(a integer\) TO visitor;/);
+  });
+
+  it("should not revoke from PUBLIC when PUBLIC keeps the default EXECUTE", () => {
+    const result = withGrants(func);
+    assert.ok(!result.includes("FROM PUBLIC"));
+  });
+
+  it("should revoke from PUBLIC when PUBLIC lacks EXECUTE", () => {
+    const result = withGrants({ ...func, public_execute: false });
+    const revokePublic = result.indexOf("REVOKE ALL ON FUNCTION s.f(a integer) FROM PUBLIC;");
+    const grant = result.indexOf("GRANT EXECUTE ON FUNCTION s.f(a integer) TO visitor;");
+    assert.ok(revokePublic >= 0 && revokePublic < grant);
+  });
+
+  it("should omit the grants block when the ACL is the default", () => {
+    const result = generateFunctionSQL(func);
+    assert.ok(!result.includes("-- Grant execution permissions"));
+  });
+
+  it("should target the function by its identity signature (no defaults)", () => {
+    const result = withGrants({ ...func, comment: "Doc" });
+    assert.match(result, /COMMENT ON FUNCTION s\.f\(a integer\) IS 'Doc';/);
+    assert.ok(!result.includes("s.f(a integer DEFAULT 1)"));
+  });
+
+  it("should show owner, volatility, strictness, parallel safety and cost in the header", () => {
+    const result = generateFunctionSQL(func);
+    assert.match(result, /-- Owner: owner/);
+    assert.match(result, /-- Volatility: STABLE/);
+    assert.match(result, /-- Strict: Yes/);
+    assert.match(result, /-- Leakproof: No/);
+    assert.match(result, /-- Parallel: SAFE/);
+    assert.match(result, /-- Cost: 100\n/);
+    assert.match(result, /-- Security: INVOKER/);
+  });
+
+  it("should show rows for set-returning functions and config settings", () => {
+    const result = generateFunctionSQL({ ...func, rows: 1000, config: ["search_path=s, pg_temp"] });
+    assert.match(result, /-- Cost: 100, Rows: 1000/);
+    assert.match(result, /-- Config: search_path=s, pg_temp/);
+  });
+
+  it("should warn about SECURITY DEFINER functions without a pinned search_path", () => {
+    const unpinned = generateFunctionSQL({ ...func, is_security_definer: true, security_definer: true });
+    assert.match(unpinned, /-- Security: DEFINER/);
+    assert.match(unpinned, /-- WARNING: SECURITY DEFINER without a pinned search_path/);
+
+    const pinned = generateFunctionSQL(
+      { ...func, is_security_definer: true, security_definer: true, config: ["search_path=pg_catalog, pg_temp"] },
+    );
+    assert.ok(!pinned.includes("WARNING"));
+  });
+
+  it("should use PROCEDURE for procedures", () => {
+    const result = generateFunctionSQL({ ...func, function_type: "PROCEDURE", public_execute: false });
+    assert.match(result, /REVOKE ALL ON PROCEDURE s\.f\(a integer\) FROM PUBLIC;/);
+  });
+
+  it("should set the owner by identity signature", () => {
+    const result = generateFunctionSQL(func);
+    assert.match(result, /ALTER FUNCTION s\.f\(a integer\) OWNER TO owner;/);
+    assert.ok(
+      result.indexOf("CREATE OR REPLACE") < result.indexOf("OWNER TO"),
+    );
+  });
+
+  it("should map the owner in the header", () => {
+    const result = generateFunctionSQL(func, undefined, { owner: "OWNER_ROLE" });
+    assert.match(result, /-- Owner: OWNER_ROLE$/m);
+    assert.ok(!/owner/.test(result));
+  });
+
+  it("should only drop the function when requested", () => {
+    assert.ok(!generateFunctionSQL(func).includes("DROP"));
+    const result = generateFunctionSQL(func, undefined, undefined, false, true);
+    assert.match(result, /DROP FUNCTION IF EXISTS s\.f\(a integer\);/);
+    assert.ok(!result.includes("CASCADE"));
+    assert.ok(result.indexOf("DROP") < result.indexOf("CREATE OR REPLACE"));
+  });
+});
+
+describe("functionFileName", () => {
+  const base = {
+    function_name: "my_fn",
+    argument_types: "integer, timestamp with time zone",
+  } as FunctionInfo;
+
+  it("should keep the plain name when the function is not overloaded", () => {
+    assert.equal(functionFileName(base, false), "my_fn.sql");
+  });
+
+  it("should name overloads after their argument types", () => {
+    assert.equal(
+      functionFileName(base, true),
+      "my_fn(integer,timestamp_with_time_zone).sql",
+    );
+    assert.equal(
+      functionFileName({ ...base, argument_types: "" }, true),
+      "my_fn().sql",
+    );
+  });
+
+  it("should fall back to a stable hash for very long signatures", () => {
+    const long = { ...base, argument_types: Array(20).fill("character varying").join(", ") };
+    const name = functionFileName(long, true);
+    assert.match(name, /^my_fn_[0-9a-f]{8}\.sql$/);
+    assert.equal(functionFileName(long, true), name);
+  });
+});
+
+describe("normalizeFunctionSignature", () => {
+  it("should ignore whitespace and surrounding parentheses", () => {
+    assert.equal(
+      normalizeFunctionSignature("(a  integer,b text)"),
+      normalizeFunctionSignature("a integer, b text"),
+    );
+  });
+});
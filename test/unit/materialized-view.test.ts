@@ -0,0 +1,58 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateMaterializedViewSQL } from "../../lib/generators.js";
+import type { MaterializedViewInfo } from "../../lib/database.js";
+import { cols } from "./fixtures.js";
+
+describe("generateMaterializedViewSQL", () => {
+  const matview: MaterializedViewInfo = {
+    schema_name: "s",
+    matview_name: "mv",
+    definition: " SELECT t.id\n   FROM s.t;",
+    owner: "owner",
+    comment: "Stats",
+    is_populated: true,
+  };
+  const grants = [{ grantor: "o", grantee: "r", privilege: "SELECT", is_grantable: false }];
+  const indexes = [
+    { index_name: "mv_id_idx", index_definition: "CREATE UNIQUE INDEX mv_id_idx ON s.mv USING btree (id)", comment: "by id" },
+  ];
+
+  it("should only document the definition by default", () => {
+    const result = generateMaterializedViewSQL(matview, grants, indexes);
+    assert.match(result, /MATERIALIZED VIEW DOCUMENTATION: s\.mv/);
+    assert.ok(!result.includes("CREATE MATERIALIZED VIEW"));
+    assert.match(result, /GRANT SELECT ON TABLE s\.mv TO r;/);
+  });
+
+  it("should emit DROP + CREATE ... WITH DATA when includeDefinition is set", () => {
+    const result = generateMaterializedViewSQL(matview, grants, indexes, undefined, false, true);
+    assert.ok(!result.includes("MATERIALIZED VIEW DOCUMENTATION"));
+    const dropPos = result.indexOf("DROP MATERIALIZED VIEW IF EXISTS s.mv CASCADE;");
+    const createPos = result.indexOf("CREATE MATERIALIZED VIEW s.mv AS\n SELECT t.id\n   FROM s.t\n  WITH DATA;");
+    assert.ok(dropPos >= 0 && createPos >= 0 && dropPos < createPos);
+  });
+
+  it("should emit WITH NO DATA for unpopulated materialized views", () => {
+    const result = generateMaterializedViewSQL({ ...matview, is_populated: false }, [], [], undefined, false, true);
+    assert.match(result, /  WITH NO DATA;/);
+  });
+
+  it("should emit owner, indexes, comments and grants in DDL mode", () => {
+    const result = generateMaterializedViewSQL(matview, grants, indexes, undefined, false, true, cols);
+    assert.match(result, /ALTER MATERIALIZED VIEW s\.mv OWNER TO owner;/);
+    assert.match(result, /DROP INDEX IF EXISTS s\.mv_id_idx;\nCREATE UNIQUE INDEX mv_id_idx ON s\.mv USING btree \(id\);/);
+    assert.match(result, /COMMENT ON MATERIALIZED VIEW s\.mv IS 'Stats';/);
+    assert.match(result, /COMMENT ON COLUMN s\.mv\.name IS 'The name';/);
+    assert.match(result, /COMMENT ON INDEX s\.mv_id_idx IS 'by id';/);
+    assert.match(result, /REVOKE ALL ON TABLE s\.mv FROM r;/);
+    assert.match(result, /GRANT SELECT ON TABLE s\.mv TO r;/);
+  });
+
+  it("should map the owner in headers and documentation", () => {
+    const documented = generateMaterializedViewSQL(matview, [], [], { owner: "OWNER_ROLE" });
+    assert.match(documented, /-- Owner: OWNER_ROLE$/m);
+    assert.match(documented, /  Owner: OWNER_ROLE$/m);
+    assert.ok(!/owner/.test(documented));
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generatePartitionsSQL } from "../../lib/generators.js";
+import type { PartitionChildInfo } from "../../lib/database.js";
+import { join } from "./fixtures.js";
+
+describe("generatePartitionsSQL", () => {
+  const partitions: PartitionChildInfo[] = [
+    { schema_name: "s", table_name: "sales_2024", parent_schema: "s", parent_table: "sales", bound: "FOR VALUES FROM ('2024-01-01') TO ('2025-01-01')", partition_key: "LIST (region)", level: 1 },
+    { schema_name: "s", table_name: "sales_default", parent_schema: "s", parent_table: "sales", bound: "DEFAULT", partition_key: null, level: 1 },
+    { schema_name: "s", table_name: "sales_2024_eu", parent_schema: "s", parent_table: "sales_2024", bound: "FOR VALUES IN ('eu')", partition_key: null, level: 2 },
+  ];
+
+  it("should create each partition with PARTITION OF and its bound", () => {
+    const result = join(generatePartitionsSQL(partitions));
+    assert.match(result, /CREATE TABLE s\.sales_default PARTITION OF s\.sales DEFAULT;/);
+    assert.match(result, /CREATE TABLE s\.sales_2024_eu PARTITION OF s\.sales_2024 FOR VALUES IN \('eu'\);/);
+  });
+
+  it("should keep PARTITION BY on sub-partitioned partitions", () => {
+    const result = join(generatePartitionsSQL(partitions));
+    assert.match(
+      result,
+      /CREATE TABLE s\.sales_2024 PARTITION OF s\.sales FOR VALUES FROM \('2024-01-01'\) TO \('2025-01-01'\) PARTITION BY LIST \(region\);/,
+    );
+  });
+
+  it("should preserve parent-before-child order", () => {
+    const result = join(generatePartitionsSQL(partitions));
+    assert.ok(result.indexOf("s.sales_2024 PARTITION OF") < result.indexOf("s.sales_2024_eu PARTITION OF"));
+  });
+
+  it("should return nothing without partitions", () => {
+    assert.deepEqual(generatePartitionsSQL([]), []);
+  });
+});
@@ -40,4 +40,34 @@ describe("generateRlsSQL", () => {
     const result = join(generateRlsSQL("s", "t", true, false, policies));
     assert.match(result, /TO a_role, z_role/);
   });
+
+  it("should omit TO for PUBLIC-only policies and keep PUBLIC as a keyword", () => {
+    const policies = [
+      { policy: "p_all", cmd: "SELECT", roles: null, permissive: "PERMISSIVE", using: "true" },
+      { policy: "p_mixed", cmd: "SELECT", roles: ["viewer", "PUBLIC"], permissive: "PERMISSIVE", using: "true" },
+    ];
+    const result = join(generateRlsSQL("s", "t", true, false, policies));
+    assert.match(result, /CREATE POLICY p_all ON s\.t FOR SELECT USING \(true\);/);
+    assert.match(result, /TO PUBLIC, viewer/);
+    assert.doesNotMatch(result, /"public"/);
+  });
+
+  it("should list policy dependencies in a comment above the policy", () => {
+    const policies = [
+      {
+        policy: "p",
+        cmd: "SELECT",
+        roles: ["r"],
+        permissive: "PERMISSIVE",
+        using: "app.is_member(org_id)",
+        depends_on: ["function app.is_member(integer)", "table app.memberships"],
+      },
+    ];
+    const lines = generateRlsSQL("s", "t", true, false, policies);
+    const commentIndex = lines.indexOf(
+      "-- Depends on: function app.is_member(integer), table app.memberships",
+    );
+    assert.ok(commentIndex >= 0);
+    assert.match(lines[commentIndex + 1], /^DROP POLICY IF EXISTS p ON s\.t;/);
+  });
 });
@@ -1,6 +1,138 @@
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { applyRoleMappings } from "../../lib/generators.js";
+import {
+  applyRoleMappings,
+  formatRole,
+  mapRoleReferences,
+  resolveRoleMapping,
+  reverseRoleMappings,
+  renderPlaceholder,
+  resolvePlaceholderStyle,
+  generateGrantsSQL,
+  generateRlsSQL,
+  generateTableSQL,
+  type TableData,
+} from "../../lib/generators.js";
+import { cols, join } from "./fixtures.js";
+
+describe("formatRole", () => {
+  it("should render mapped roles as their placeholder verbatim", () => {
+    assert.equal(formatRole("my_role", { my_role: ":MAPPED" }), ":MAPPED");
+  });
+
+  it("should quote unmapped roles and keep PUBLIC a keyword", () => {
+    assert.equal(formatRole("Admin", { my_role: ":MAPPED" }), '"Admin"');
+    assert.equal(formatRole("PUBLIC", { my_role: ":MAPPED" }), "PUBLIC");
+    assert.equal(formatRole("constructor", {}), "constructor");
+  });
+});
+
+describe("role mappings", () => {
+  const mappings = { my_role: ":MAPPED" };
+
+  it("should map grantees in REVOKE FROM and GRANT TO", () => {
+    const result = join(
+      generateGrantsSQL(
+        "s",
+        "t",
+        [{ grantor: "o", grantee: "my_role", privilege: "SELECT", is_grantable: false }],
+        "TABLE",
+        mappings,
+      ),
+    );
+    assert.match(result, /REVOKE ALL ON TABLE s\.t FROM :MAPPED;/);
+    assert.match(result, /GRANT SELECT ON TABLE s\.t TO :MAPPED;/);
+  });
+
+  it("should map the owner and leave columns and expressions alone", () => {
+    const table: TableData = {
+      table: "t",
+      owner: "my_role",
+      rls: {
+        enabled: true,
+        force: false,
+        policies: [
+          {
+            policy: "p",
+            cmd: "SELECT",
+            roles: ["my_role"],
+            permissive: "PERMISSIVE",
+            using: "(my_role = 'my_role'::text)",
+          },
+        ],
+      },
+      rbac: { table_grants: [], column_grants: [] },
+      triggers: [],
+      column_definitions: [
+        ...cols,
+        { column_name: "my_role", data_type: "text", not_null: false, column_default: null, comment: null, ordinal_position: 4 },
+      ],
+      constraint_definitions: [],
+      index_definitions: [],
+      partition_info: null,
+    };
+    const result = generateTableSQL("s", table, mappings);
+    assert.match(result, /ALTER TABLE s\.t OWNER TO :MAPPED;/);
+    assert.match(result, /^ {4}my_role text$/m);
+    assert.match(result, /TO :MAPPED USING \(\(my_role = 'my_role'::text\)\);/);
+  });
+
+  it("should map current_user comparisons in policies only when asked", () => {
+    const policies = [
+      {
+        policy: "p",
+        cmd: "ALL",
+        roles: null,
+        permissive: "PERMISSIVE",
+        using: "(CURRENT_USER = 'my_role'::name)",
+        with_check: "('my_role'::name = SESSION_USER)",
+      },
+    ];
+    const plain = join(generateRlsSQL("s", "t", true, false, policies, mappings));
+    assert.match(plain, /USING \(\(CURRENT_USER = 'my_role'::name\)\)/);
+
+    const mapped = join(
+      generateRlsSQL("s", "t", true, false, policies, mappings, true),
+    );
+    assert.match(mapped, /USING \(\(CURRENT_USER = ':MAPPED'::name\)\)/);
+    assert.match(mapped, /WITH CHECK \(\(':MAPPED'::name = SESSION_USER\)\)/);
+  });
+});
+
+describe("mapRoleReferences", () => {
+  it("should only rewrite literals compared with a role function", () => {
+    const mappings = { admin: ":ADMIN" };
+    assert.equal(
+      mapRoleReferences("((CURRENT_USER)::text = 'admin'::text) OR (kind = 'admin'::text)", mappings),
+      "((CURRENT_USER)::text = ':ADMIN'::text) OR (kind = 'admin'::text)",
+    );
+    assert.equal(
+      mapRoleReferences("(current_role <> 'other'::name)", mappings),
+      "(current_role <> 'other'::name)",
+    );
+  });
+});
+
+describe("pattern role mappings", () => {
+  it("should match regex keys and substitute capture groups", () => {
+    const mappings = { "^(.*)_visitor$": ":DATABASE_VISITOR", "^(\\w+)_prod_admin$": ":$1_ADMIN" };
+    assert.equal(resolveRoleMapping("acme_prod_visitor", mappings), ":DATABASE_VISITOR");
+    assert.equal(resolveRoleMapping("acme_prod_admin", mappings), ":acme_ADMIN");
+    assert.equal(resolveRoleMapping("acme_prod_owner", mappings), undefined);
+  });
+
+  it("should match glob keys and prefer exact keys", () => {
+    const mappings = { "*_visitor": ":VISITOR_$1", special_visitor: ":SPECIAL" };
+    assert.equal(resolveRoleMapping("acme_visitor", mappings), ":VISITOR_acme");
+    assert.equal(resolveRoleMapping("special_visitor", mappings), ":SPECIAL");
+    assert.equal(resolveRoleMapping("acme.visitor", { "acme.*": ":X" }), ":X");
+    assert.equal(resolveRoleMapping("acmeXvisitor", { "acme.*": ":X" }), undefined);
+  });
+
+  it("should reject invalid regex keys", () => {
+    assert.throws(() => resolveRoleMapping("x", { "^(x$": ":X" }), /Invalid role mapping pattern/);
+  });
+});
 
 describe("applyRoleMappings", () => {
   it("should replace role names in GRANT TO", () => {
@@ -14,4 +146,121 @@ describe("applyRoleMappings", () => {
     const result = applyRoleMappings(sql, { my_role: ":MAPPED" });
     assert.match(result, /FROM :MAPPED/);
   });
+
+  it("should resolve role lists through pattern keys and leave other names alone", () => {
+    const sql = 'CREATE POLICY p ON s.t TO acme_visitor, "Admin" USING (true);\nSELECT x FROM acme_visitor.t;';
+    assert.equal(
+      applyRoleMappings(sql, { "*_visitor": "VISITOR" }, "psql"),
+      'CREATE POLICY p ON s.t TO :"VISITOR", "Admin" USING (true);\nSELECT x FROM acme_visitor.t;',
+    );
+  });
+});
+
+describe("reverseRoleMappings", () => {
+  it("should turn placeholders back into exact roles", () => {
+    const sql = "GRANT SELECT ON TABLE s.t TO :DATABASE_VISITOR;\nALTER TABLE s.t OWNER TO :DATABASE_VISITOR_2;";
+    const result = reverseRoleMappings(sql, {
+      visitor: ":DATABASE_VISITOR",
+      "Visitor Two": ":DATABASE_VISITOR_2",
+    });
+    assert.equal(
+      result,
+      'GRANT SELECT ON TABLE s.t TO visitor;\nALTER TABLE s.t OWNER TO "Visitor Two";',
+    );
+  });
+
+  it("should rebuild pattern roles from captures", () => {
+    const mappings = { "^(.*)_visitor$": ":DATABASE_VISITOR", "*_admin": ":DATABASE_ADMIN" };
+    const sql = "GRANT SELECT ON TABLE s.t TO :DATABASE_VISITOR, :DATABASE_ADMIN;";
+    assert.equal(
+      reverseRoleMappings(sql, mappings, ["tenant_42"]),
+      "GRANT SELECT ON TABLE s.t TO tenant_42_visitor, tenant_42_admin;",
+    );
+    assert.throws(() => reverseRoleMappings(sql, mappings), /needs 1 capture value/);
+  });
+
+  it("should keep placeholders in string literals as literals", () => {
+    const sql = "USING ((CURRENT_USER = ':DATABASE_ADMIN'::name));";
+    assert.equal(
+      reverseRoleMappings(sql, { "o'brien": ":DATABASE_ADMIN" }),
+      "USING ((CURRENT_USER = 'o''brien'::name));",
+    );
+  });
+
+  it("should not match placeholders inside longer identifiers", () => {
+    const sql = "GRANT SELECT ON TABLE s.last_visitor TO visitor;";
+    assert.equal(
+      reverseRoleMappings(sql, { app_visitor: "visitor" }),
+      "GRANT SELECT ON TABLE s.last_visitor TO app_visitor;",
+    );
+  });
+
+  it("should leave comments, other literals and dollar-quoted bodies alone", () => {
+    const sql = "-- Owner: :VISITOR\nCOMMENT ON TABLE s.t IS 'a:VISITOR';\nCOMMENT ON COLUMN s.t.a IS $$:VISITOR$$;\nGRANT SELECT ON TABLE s.t TO :VISITOR;";
+    assert.equal(
+      reverseRoleMappings(sql, { app_visitor: ":VISITOR" }),
+      "-- Owner: :VISITOR\nCOMMENT ON TABLE s.t IS 'a:VISITOR';\nCOMMENT ON COLUMN s.t.a IS $$:VISITOR$$;\nGRANT SELECT ON TABLE s.t TO app_visitor;",
+    );
+  });
+
+  it("should refuse regex keys that are not literal outside their groups", () => {
+    assert.throws(
+      () => reverseRoleMappings("x", { "^(a|b)+_x$": ":X" }, ["a"]),
+      /cannot be reversed/,
+    );
+  });
+});
+
+describe("placeholder styles", () => {
+  it("should render presets for identifiers and literals", () => {
+    assert.equal(renderPlaceholder("DATABASE_ADMIN", "graphile"), ":DATABASE_ADMIN");
+    assert.equal(renderPlaceholder("db_admin", "flyway"), "${db_admin}");
+    assert.equal(renderPlaceholder("db_admin", "psql"), ':"db_admin"');
+    assert.equal(renderPlaceholder("db_admin", "psql", "literal"), ":'db_admin'");
+    assert.equal(renderPlaceholder("db_admin", "dbmate", "literal"), "'${db_admin}'");
+  });
+
+  it("should drop a leading colon and keep values verbatim without a style", () => {
+    assert.equal(renderPlaceholder(":db_admin", "sqitch"), ':"db_admin"');
+    assert.equal(renderPlaceholder(":DATABASE_ADMIN"), ":DATABASE_ADMIN");
+    assert.equal(renderPlaceholder(":DATABASE_ADMIN", undefined, "literal"), "':DATABASE_ADMIN'");
+  });
+
+  it("should accept templates and reject unknown styles", () => {
+    assert.equal(renderPlaceholder("admin", "{{ roles.{name} }}"), "{{ roles.admin }}");
+    assert.equal(
+      renderPlaceholder("admin", { identifier: "@{name}", literal: "@'{name}'" }, "literal"),
+      "@'admin'",
+    );
+    assert.equal(renderPlaceholder("admin", "@{name}", "literal"), "'@admin'");
+    assert.throws(() => resolvePlaceholderStyle("liquibase"), /Invalid placeholder style/);
+  });
+
+  it("should render owners, grantees and policy literals in the style", () => {
+    const mappings = { app_admin: "db_admin" };
+    const result = join(
+      generateGrantsSQL(
+        "s",
+        "t",
+        [{ grantor: "o", grantee: "app_admin", privilege: "SELECT", is_grantable: false }],
+        "TABLE",
+        mappings,
+        "psql",
+      ),
+    );
+    assert.match(result, /REVOKE ALL ON TABLE s\.t FROM :"db_admin";/);
+    assert.match(result, /GRANT SELECT ON TABLE s\.t TO :"db_admin";/);
+    assert.equal(
+      mapRoleReferences("(CURRENT_USER = 'app_admin'::name)", mappings, "psql"),
+      "(CURRENT_USER = :'db_admin'::name)",
+    );
+  });
+
+  it("should reverse both forms of a style", () => {
+    const sql = `ALTER TABLE s.t OWNER TO :"db_admin";\nUSING ((CURRENT_USER = :'db_admin'::name));`;
+    assert.equal(
+      reverseRoleMappings(sql, { "App Admin": "db_admin" }, [], "psql"),
+      `ALTER TABLE s.t OWNER TO "App Admin";\nUSING ((CURRENT_USER = 'App Admin'::name));`,
+    );
+  });
 });
@@ -0,0 +1,31 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateRulesSQL } from "../../lib/generators.js";
+import type { RuleInfo } from "../../lib/database.js";
+import { join } from "./fixtures.js";
+
+describe("generateRulesSQL", () => {
+  const rules: RuleInfo[] = [
+    { rule_name: "z_protect", definition: "CREATE RULE z_protect AS\n    ON DELETE TO s.t DO INSTEAD NOTHING;", enabled: "O" },
+    { rule_name: "a_log", definition: "CREATE RULE a_log AS\n    ON UPDATE TO s.t DO ALSO NOTIFY t_changed;", enabled: "D" },
+  ];
+
+  it("should drop each rule before recreating it, sorted by name", () => {
+    const result = join(generateRulesSQL("s", "t", rules));
+    assert.match(result, /DROP RULE IF EXISTS a_log ON s\.t;\nCREATE RULE a_log AS/);
+    assert.ok(result.indexOf("a_log") < result.indexOf("z_protect"));
+    assert.equal(result.match(/;;/g), null);
+  });
+
+  it("should restore the firing mode of non-default rules", () => {
+    const result = join(generateRulesSQL("s", "t", rules));
+    assert.match(result, /ALTER TABLE s\.t DISABLE RULE a_log;/);
+    assert.ok(!result.includes("RULE z_protect;"));
+    const replica = join(generateRulesSQL("s", "t", [{ ...rules[0], enabled: "R" }]));
+    assert.match(replica, /ALTER TABLE s\.t ENABLE REPLICA RULE z_protect;/);
+  });
+
+  it("should return empty array for no rules", () => {
+    assert.equal(generateRulesSQL("s", "t", []).length, 0);
+  });
+});
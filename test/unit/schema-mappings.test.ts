@@ -0,0 +1,153 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  mapSchemaName,
+  remapSchemaReferences,
+  generateSchemaSQL,
+  generateTableSQL,
+  type TableData,
+} from "../../lib/generators.js";
+
+describe("mapSchemaName", () => {
+  it("should map listed schemas and keep the rest", () => {
+    assert.equal(mapSchemaName("app_public", { app_public: "tenant_42" }), "tenant_42");
+    assert.equal(mapSchemaName("other", { app_public: "tenant_42" }), "other");
+    assert.equal(mapSchemaName("constructor", {}), "constructor");
+  });
+});
+
+describe("remapSchemaReferences", () => {
+  const mappings = { app_public: "tenant_42", App: "New App" };
+
+  it("should rewrite qualifiers, quoted or bare", () => {
+    assert.equal(
+      remapSchemaReferences(
+        'ALTER TABLE app_public.users ADD CONSTRAINT fk FOREIGN KEY (org) REFERENCES "App".orgs(id);',
+        mappings,
+      ),
+      'ALTER TABLE tenant_42.users ADD CONSTRAINT fk FOREIGN KEY (org) REFERENCES "New App".orgs(id);',
+    );
+    assert.equal(
+      remapSchemaReferences("CREATE INDEX i ON APP_PUBLIC.t USING btree (a)", mappings),
+      "CREATE INDEX i ON tenant_42.t USING btree (a)",
+    );
+  });
+
+  it("should not treat column references as schemas", () => {
+    assert.equal(
+      remapSchemaReferences("USING ((t.app_public.x = 1))", mappings),
+      "USING ((t.app_public.x = 1))",
+    );
+  });
+
+  it("should rewrite names after the SCHEMA keyword", () => {
+    assert.equal(
+      remapSchemaReferences(
+        "CREATE SCHEMA IF NOT EXISTS app_public;\nALTER DEFAULT PRIVILEGES IN SCHEMA app_public GRANT SELECT ON TABLES TO r;",
+        mappings,
+      ),
+      "CREATE SCHEMA IF NOT EXISTS tenant_42;\nALTER DEFAULT PRIVILEGES IN SCHEMA tenant_42 GRANT SELECT ON TABLES TO r;",
+    );
+  });
+
+  it("should rewrite regclass literals but no other literals", () => {
+    assert.equal(
+      remapSchemaReferences(
+        "DEFAULT nextval('app_public.users_id_seq'::regclass), 'app_public.x', 'app_public'::regnamespace",
+        mappings,
+      ),
+      "DEFAULT nextval('tenant_42.users_id_seq'::regclass), 'app_public.x', 'tenant_42'::regnamespace",
+    );
+  });
+
+  it("should rewrite search_path lists, literal or bare", () => {
+    assert.equal(
+      remapSchemaReferences(
+        " SET search_path TO 'app_public', 'pg_temp'\nAS $function$ SELECT 'app_public' $function$",
+        mappings,
+      ),
+      " SET search_path TO 'tenant_42', 'pg_temp'\nAS $function$ SELECT 'app_public' $function$",
+    );
+    assert.equal(
+      remapSchemaReferences("ALTER FUNCTION f() SET search_path = \"App\", app_public, public;", mappings),
+      'ALTER FUNCTION f() SET search_path = "New App", tenant_42, public;',
+    );
+  });
+
+  it("should leave comments and dollar-quoted bodies alone", () => {
+    const sql = "-- Table: app_public.users\nCOMMENT ON TABLE app_public.users IS $$see app_public.users$$;";
+    assert.equal(
+      remapSchemaReferences(sql, mappings),
+      "-- Table: app_public.users\nCOMMENT ON TABLE tenant_42.users IS $$see app_public.users$$;",
+    );
+  });
+});
+
+describe("schema mappings in generators", () => {
+  it("should rename the schema in schema snapshots", () => {
+    const result = generateSchemaSQL(
+      { schema_name: "app_public", owner: "owner", comment: null },
+      [{ grantor: "owner", grantee: "visitor", privilege: "USAGE", is_grantable: false }],
+      [],
+      undefined,
+      false,
+      undefined,
+      { app_public: "tenant_42" },
+    );
+    assert.match(result, /CREATE SCHEMA IF NOT EXISTS tenant_42;/);
+    assert.match(result, /GRANT USAGE ON SCHEMA tenant_42 TO visitor;/);
+  });
+
+  it("should rename the table and the definitions PostgreSQL returned", () => {
+    const table: TableData = {
+      table: "users",
+      owner: "owner",
+      rls: {
+        enabled: true,
+        force: false,
+        policies: [{ policy: "p", cmd: "SELECT", roles: null, permissive: "PERMISSIVE", using: "(org = app_public.current_org())" }],
+      },
+      rbac: { table_grants: [], column_grants: [] },
+      triggers: [
+        {
+          trigger_name: "trg",
+          action_timing: "BEFORE",
+          event_manipulation: "UPDATE",
+          action_orientation: "ROW",
+          action_statement: "EXECUTE FUNCTION app_private.touch()",
+          action_condition: null,
+          action_order: 1,
+          definition: "CREATE TRIGGER trg BEFORE UPDATE ON app_public.users FOR EACH ROW EXECUTE FUNCTION app_private.touch()",
+        },
+      ],
+      column_definitions: [
+        { column_name: "id", data_type: "integer", not_null: true, column_default: "nextval('app_public.users_id_seq'::regclass)", comment: null, ordinal_position: 1 },
+        { column_name: "org", data_type: "integer", not_null: false, column_default: null, comment: null, ordinal_position: 2 },
+      ],
+      constraint_definitions: [
+        { constraint_name: "users_org_fkey", constraint_type: "f", definition: "FOREIGN KEY (org) REFERENCES app_public.orgs(id)" },
+      ],
+      index_definitions: [
+        { index_name: "users_org_idx", index_definition: "CREATE INDEX users_org_idx ON app_public.users USING btree (org)", comment: null },
+      ],
+      partition_info: null,
+    };
+    const result = generateTableSQL(
+      "app_public",
+      table,
+      undefined,
+      false,
+      false,
+      undefined,
+      { app_public: "tenant_42", app_private: "tenant_42_private" },
+    );
+
+    assert.ok(!/^[^-].*app_public/m.test(result), "only comments keep the source schema");
+    assert.match(result, /CREATE TABLE tenant_42\.users \(/);
+    assert.match(result, /nextval\('tenant_42\.users_id_seq'::regclass\)/);
+    assert.match(result, /REFERENCES tenant_42\.orgs\(id\)/);
+    assert.match(result, /ON tenant_42\.users USING btree \(org\)/);
+    assert.match(result, /EXECUTE FUNCTION tenant_42_private\.touch\(\)/);
+    assert.match(result, /USING \(\(org = tenant_42\.current_org\(\)\)\)/);
+  });
+});
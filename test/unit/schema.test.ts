@@ -0,0 +1,41 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateSchemaSQL } from "../../lib/generators.js";
+
+describe("generateSchemaSQL", () => {
+  const schemaInfo = { schema_name: "app_public", owner: "owner", comment: null };
+
+  it("should emit CREATE SCHEMA IF NOT EXISTS and OWNER", () => {
+    const result = generateSchemaSQL(schemaInfo, []);
+    assert.match(result, /-- Schema: app_public/);
+    assert.match(result, /CREATE SCHEMA IF NOT EXISTS app_public;/);
+    assert.match(result, /ALTER SCHEMA app_public OWNER TO owner;/);
+    assert.ok(!result.includes("-- GRANTS"));
+    assert.ok(!result.includes("-- COMMENTS"));
+  });
+
+  it("should emit schema grants with REVOKE ALL first", () => {
+    const result = generateSchemaSQL(schemaInfo, [
+      { grantor: "owner", grantee: "visitor", privilege: "USAGE", is_grantable: false },
+      { grantor: "owner", grantee: "PUBLIC", privilege: "USAGE", is_grantable: false },
+    ]);
+    assert.match(result, /REVOKE ALL ON SCHEMA app_public FROM PUBLIC;\nREVOKE ALL ON SCHEMA app_public FROM visitor;/);
+    assert.match(result, /GRANT USAGE ON SCHEMA app_public TO visitor;/);
+    assert.match(result, /GRANT USAGE ON SCHEMA app_public TO PUBLIC;/);
+  });
+
+  it("should emit COMMENT ON SCHEMA", () => {
+    const result = generateSchemaSQL({ ...schemaInfo, comment: "Public API" }, []);
+    assert.match(result, /COMMENT ON SCHEMA app_public IS 'Public API';/);
+  });
+
+  it("should apply role mappings to grantees", () => {
+    const result = generateSchemaSQL(
+      schemaInfo,
+      [{ grantor: "owner", grantee: "visitor", privilege: "USAGE", is_grantable: false }],
+      [],
+      { visitor: ":DATABASE_GUEST" },
+    );
+    assert.match(result, /GRANT USAGE ON SCHEMA app_public TO :DATABASE_GUEST;/);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateCreateSequenceSQL, generateSequenceSQL } from "../../lib/generators.js";
+import type { SequenceInfo } from "../../lib/database.js";
+import { join } from "./fixtures.js";
+
+describe("generateSequenceSQL", () => {
+  const sequence: SequenceInfo = {
+    schema_name: "s",
+    sequence_name: "t_id_seq",
+    data_type: "integer",
+    start_value: "1",
+    increment_by: "1",
+    min_value: "1",
+    max_value: "2147483647",
+    cache_size: "1",
+    cycle: false,
+    owner: "owner",
+    comment: null,
+    owned_by_schema: "s",
+    owned_by_table: "t",
+    owned_by_column: "id",
+  };
+
+  it("should spell out every sequence option in CREATE SEQUENCE", () => {
+    const result = join(generateCreateSequenceSQL(sequence));
+    assert.equal(
+      result,
+      [
+        "CREATE SEQUENCE IF NOT EXISTS s.t_id_seq",
+        "    AS integer",
+        "    START WITH 1",
+        "    INCREMENT BY 1",
+        "    MINVALUE 1",
+        "    MAXVALUE 2147483647",
+        "    CACHE 1",
+        "    NO CYCLE;",
+      ].join("\n"),
+    );
+  });
+
+  it("should emit CYCLE for cycling sequences", () => {
+    const result = join(generateCreateSequenceSQL({ ...sequence, cycle: true }));
+    assert.match(result, /    CYCLE;$/);
+  });
+
+  it("should emit OWNER and leave OWNED BY to the table snapshot", () => {
+    const result = generateSequenceSQL(sequence, []);
+    assert.match(result, /ALTER SEQUENCE s\.t_id_seq OWNER TO owner;/);
+    assert.match(result, /-- Owned by: s\.t\.id/);
+    assert.ok(!result.includes("OWNED BY"));
+  });
+
+  it("should omit the owner note for free-standing sequences", () => {
+    const result = generateSequenceSQL(
+      { ...sequence, owned_by_schema: null, owned_by_table: null, owned_by_column: null },
+      [],
+    );
+    assert.ok(!result.includes("-- Owned by"));
+  });
+
+  it("should emit sequence grants with ON SEQUENCE", () => {
+    const result = generateSequenceSQL(sequence, [
+      { grantor: "o", grantee: "r", privilege: "USAGE", is_grantable: false },
+      { grantor: "o", grantee: "r", privilege: "SELECT", is_grantable: false },
+    ]);
+    assert.match(result, /REVOKE ALL ON SEQUENCE s\.t_id_seq FROM r;/);
+    assert.match(result, /GRANT SELECT ON SEQUENCE s\.t_id_seq TO r;\nGRANT USAGE ON SEQUENCE s\.t_id_seq TO r;/);
+  });
+
+  it("should emit COMMENT ON SEQUENCE when a comment exists", () => {
+    const result = generateSequenceSQL({ ...sequence, comment: "Ids" }, []);
+    assert.match(result, /COMMENT ON SEQUENCE s\.t_id_seq IS 'Ids';/);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateStatisticsSQL } from "../../lib/generators.js";
+import type { StatisticsInfo } from "../../lib/database.js";
+import { join } from "./fixtures.js";
+
+describe("generateStatisticsSQL", () => {
+  const stat: StatisticsInfo = {
+    statistics_schema: "s",
+    statistics_name: "t_city_zip",
+    definition: "CREATE STATISTICS s.t_city_zip (dependencies) ON city, zip FROM s.t",
+    statistics_target: null,
+    comment: null,
+  };
+
+  it("should drop and recreate the statistics object", () => {
+    const result = join(generateStatisticsSQL([stat]));
+    assert.equal(
+      result,
+      "DROP STATISTICS IF EXISTS s.t_city_zip;\nCREATE STATISTICS s.t_city_zip (dependencies) ON city, zip FROM s.t;",
+    );
+  });
+
+  it("should set an explicit statistics target and comment", () => {
+    const result = join(
+      generateStatisticsSQL([{ ...stat, statistics_target: 500, comment: "City/zip correlation" }]),
+    );
+    assert.match(result, /ALTER STATISTICS s\.t_city_zip SET STATISTICS 500;/);
+    assert.match(result, /COMMENT ON STATISTICS s\.t_city_zip IS 'City\/zip correlation';/);
+  });
+
+  it("should return empty array for no statistics", () => {
+    assert.equal(generateStatisticsSQL([]).length, 0);
+  });
+});
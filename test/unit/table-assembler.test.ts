@@ -25,6 +25,19 @@ describe("generateTableSQL", () => {
     assert.match(result, /ALTER TABLE s\.empty OWNER TO owner;/);
   });
 
+  it("should detach owned sequences before DROP and reattach them after CREATE", () => {
+    const result = generateTableSQL("s", {
+      ...minimalTable,
+      owned_sequences: [{ sequence_schema: "s", sequence_name: "empty_id_seq", column_name: "id" }],
+    });
+    const release = result.indexOf("ALTER SEQUENCE IF EXISTS s.empty_id_seq OWNED BY NONE;");
+    const drop = result.indexOf("DROP TABLE IF EXISTS s.empty CASCADE;");
+    const create = result.indexOf("CREATE TABLE s.empty (");
+    const owned = result.indexOf("ALTER SEQUENCE s.empty_id_seq OWNED BY s.empty.id;");
+    assert.ok(release >= 0 && release < drop, "OWNED BY NONE before DROP TABLE");
+    assert.ok(create >= 0 && create < owned, "OWNED BY after CREATE TABLE");
+  });
+
   it("should omit optional sections when data is empty", () => {
     const result = generateTableSQL("s", minimalTable);
     assert.ok(!result.includes("-- CONSTRAINTS"));
@@ -103,4 +116,59 @@ describe("generateTableSQL", () => {
     const b = generateTableSQL("s", minimalTable);
     assert.equal(a, b);
   });
+
+  it("should set REPLICA IDENTITY FULL in the OWNER section", () => {
+    const result = generateTableSQL("s", {
+      ...minimalTable,
+      storage: { persistence: "p", options: null, tablespace: null, access_method: null, replica_identity: "f", replica_identity_index: null },
+    });
+    assert.match(result, /OWNER TO owner;\nALTER TABLE s\.empty REPLICA IDENTITY FULL;/);
+  });
+
+  it("should set REPLICA IDENTITY USING INDEX after the indexes", () => {
+    const result = generateTableSQL("s", {
+      ...minimalTable,
+      index_definitions: [
+        { index_name: "empty_id_idx", index_definition: "CREATE UNIQUE INDEX empty_id_idx ON s.empty USING btree (id)", comment: null },
+      ],
+      storage: { persistence: "p", options: null, tablespace: null, access_method: null, replica_identity: "i", replica_identity_index: "empty_id_idx" },
+    });
+    const replicaPos = result.indexOf("REPLICA IDENTITY USING INDEX empty_id_idx;");
+    assert.ok(replicaPos > result.indexOf("CREATE UNIQUE INDEX empty_id_idx"));
+    assert.ok(replicaPos > result.indexOf("-- INDEXES"));
+  });
+
+  it("should render inline partitions right after the CREATE TABLE", () => {
+    const result = generateTableSQL("s", {
+      ...minimalTable,
+      partition_info: { partition_strategy: "l", partition_key: "LIST (id)" },
+      partitions: [
+        { schema_name: "s", table_name: "empty_1", parent_schema: "s", parent_table: "empty", bound: "FOR VALUES IN (1)", partition_key: null, level: 1 },
+      ],
+    });
+    const partitionsPos = result.indexOf("-- PARTITIONS");
+    assert.ok(partitionsPos > result.indexOf("PARTITION BY LIST (id);"));
+    assert.ok(partitionsPos < result.indexOf("-- OWNER"));
+    assert.match(result, /CREATE TABLE s\.empty_1 PARTITION OF s\.empty FOR VALUES IN \(1\);/);
+  });
+
+  it("should add CLUSTER, STATISTICS and RULES sections when present", () => {
+    const result = generateTableSQL("s", {
+      ...minimalTable,
+      clustered_index: "empty_pkey",
+      statistics: [
+        { statistics_schema: "s", statistics_name: "empty_stats", definition: "CREATE STATISTICS s.empty_stats ON id, id2 FROM s.empty", statistics_target: null, comment: null },
+      ],
+      rules: [
+        { rule_name: "no_delete", definition: "CREATE RULE no_delete AS\n    ON DELETE TO s.empty DO INSTEAD NOTHING;", enabled: "O" },
+      ],
+    });
+    assert.match(result, /ALTER TABLE s\.empty CLUSTER ON empty_pkey;/);
+    const clusterPos = result.indexOf("-- CLUSTER");
+    const statisticsPos = result.indexOf("-- STATISTICS");
+    const rulesPos = result.indexOf("-- RULES");
+    assert.ok(result.indexOf("-- OWNER") < clusterPos);
+    assert.ok(clusterPos < statisticsPos && statisticsPos < rulesPos);
+    assert.ok(!generateTableSQL("s", minimalTable).includes("-- RULES"));
+  });
 });
@@ -37,4 +37,60 @@ describe("generateTriggersSQL", () => {
     const result = join(generateTriggersSQL("s", "t", withCond));
     assert.match(result, /WHEN \(OLD\.x IS DISTINCT FROM NEW\.x\)/);
   });
+
+  it("should use the pg_get_triggerdef definition verbatim when present", () => {
+    const definition =
+      "CREATE CONSTRAINT TRIGGER trg_check AFTER UPDATE OF status ON s.t DEFERRABLE INITIALLY DEFERRED FOR EACH ROW EXECUTE FUNCTION fn()";
+    const result = join(
+      generateTriggersSQL("s", "t", [
+        { ...triggers[0], trigger_name: "trg_check", event_manipulation: "UPDATE", definition, enabled: "O" },
+      ]),
+    );
+    assert.equal(result, `DROP TRIGGER IF EXISTS trg_check ON s.t;\n${definition};`);
+  });
+
+  it("should restore disabled, replica and always trigger states", () => {
+    const result = join(
+      generateTriggersSQL("s", "t", [
+        { ...triggers[0], trigger_name: "trg_d", definition: "CREATE TRIGGER trg_d AFTER DELETE ON s.t FOR EACH ROW EXECUTE FUNCTION fn()", enabled: "D" },
+        { ...triggers[0], trigger_name: "trg_r", definition: "CREATE TRIGGER trg_r AFTER DELETE ON s.t FOR EACH ROW EXECUTE FUNCTION fn()", enabled: "R" },
+        { ...triggers[0], trigger_name: "trg_a", definition: "CREATE TRIGGER trg_a AFTER DELETE ON s.t FOR EACH ROW EXECUTE FUNCTION fn()", enabled: "A" },
+      ]),
+    );
+    assert.match(result, /ALTER TABLE s\.t DISABLE TRIGGER trg_d;/);
+    assert.match(result, /ALTER TABLE s\.t ENABLE REPLICA TRIGGER trg_r;/);
+    assert.match(result, /ALTER TABLE s\.t ENABLE ALWAYS TRIGGER trg_a;/);
+    assert.ok(result.indexOf("CREATE TRIGGER trg_d") < result.indexOf("DISABLE TRIGGER trg_d"));
+  });
+
+  it("should point each trigger at its function snapshot", () => {
+    const withFunction = {
+      ...triggers[0],
+      function_oid: 42,
+      function_schema: "app_private",
+      function_name: "tg__timestamps",
+      function_argument_types: "",
+      function_overloaded: false,
+    };
+    const result = join(generateTriggersSQL("s", "t", [withFunction]));
+    assert.match(
+      result,
+      /^-- Trigger function: app_private\.tg__timestamps\(\) -> app_private\/functions\/tg__timestamps\.sql\nDROP TRIGGER IF EXISTS trg_b/m,
+    );
+
+    const external = join(generateTriggersSQL("s", "t", [{ ...withFunction, function_exported: false }]));
+    assert.match(external, /-- Trigger function: app_private\.tg__timestamps\(\) \(not in this export\)/);
+  });
+
+  it("should point at the mapped schema folder", () => {
+    const result = join(
+      generateTriggersSQL(
+        "s",
+        "t",
+        [{ ...triggers[0], function_schema: "app_private", function_name: "tg__timestamps", function_argument_types: "" }],
+        { app_private: "tenant_42_private" },
+      ),
+    );
+    assert.match(result, /-- Trigger function: app_private\.tg__timestamps\(\) -> tenant_42_private\/functions\/tg__timestamps\.sql/);
+  });
 });
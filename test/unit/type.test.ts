@@ -0,0 +1,94 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateCreateTypeSQL, generateTypeSQL } from "../../lib/generators.js";
+import type { TypeInfo } from "../../lib/database.js";
+import { join } from "./fixtures.js";
+
+describe("generateTypeSQL", () => {
+  const base: TypeInfo = {
+    schema_name: "s",
+    type_name: "t",
+    type_kind: "e",
+    owner: "owner",
+    comment: null,
+    enum_labels: null,
+    attributes: null,
+    base_type: null,
+    collation: null,
+    default_value: null,
+    not_null: false,
+    constraints: null,
+    range_subtype: null,
+    range_subtype_opclass: null,
+    range_canonical: null,
+    range_subtype_diff: null,
+  };
+
+  it("should emit enum labels in the given order with quotes escaped", () => {
+    const result = join(generateCreateTypeSQL({ ...base, enum_labels: ["draft", "it's live"] }));
+    assert.equal(result, "CREATE TYPE s.t AS ENUM (\n    'draft',\n    'it''s live'\n);");
+  });
+
+  it("should emit composite attributes with non-default collations", () => {
+    const result = join(
+      generateCreateTypeSQL({
+        ...base,
+        type_kind: "c",
+        attributes: [
+          { name: "x", data_type: "integer", collation: null },
+          { name: "label", data_type: "text", collation: 'pg_catalog."C"' },
+        ],
+      }),
+    );
+    assert.equal(result, 'CREATE TYPE s.t AS (\n    x integer,\n    label text COLLATE pg_catalog."C"\n);');
+  });
+
+  it("should emit CREATE DOMAIN with default, NOT NULL and constraints", () => {
+    const result = join(
+      generateCreateTypeSQL({
+        ...base,
+        type_kind: "d",
+        base_type: "text",
+        default_value: "''::text",
+        not_null: true,
+        constraints: [{ name: "email_check", definition: "CHECK (VALUE ~ '@'::text)" }],
+      }),
+    );
+    assert.equal(
+      result,
+      "CREATE DOMAIN s.t AS text\n    DEFAULT ''::text\n    NOT NULL\n    CONSTRAINT email_check CHECK (VALUE ~ '@'::text);",
+    );
+  });
+
+  it("should emit CREATE TYPE AS RANGE with only the options that are set", () => {
+    const result = join(
+      generateCreateTypeSQL({ ...base, type_kind: "r", range_subtype: "time without time zone", range_subtype_diff: "time_subtype_diff" }),
+    );
+    assert.equal(
+      result,
+      "CREATE TYPE s.t AS RANGE (\n    subtype = time without time zone,\n    subtype_diff = time_subtype_diff\n);",
+    );
+  });
+
+  it("should use DOMAIN for drop, owner, comment and grants of domains", () => {
+    const result = generateTypeSQL(
+      { ...base, type_kind: "d", base_type: "integer", comment: "Positive" },
+      [{ grantor: "o", grantee: "r", privilege: "USAGE", is_grantable: false }],
+    );
+    assert.match(result, /DROP DOMAIN IF EXISTS s\.t;/);
+    assert.match(result, /ALTER DOMAIN s\.t OWNER TO owner;/);
+    assert.match(result, /COMMENT ON DOMAIN s\.t IS 'Positive';/);
+    assert.match(result, /GRANT USAGE ON DOMAIN s\.t TO r;/);
+  });
+
+  it("should use TYPE for drop, owner and grants of enums", () => {
+    const result = generateTypeSQL(
+      { ...base, enum_labels: ["a"] },
+      [{ grantor: "o", grantee: "r", privilege: "USAGE", is_grantable: false }],
+    );
+    assert.match(result, /-- Kind: Enum/);
+    assert.match(result, /DROP TYPE IF EXISTS s\.t;/);
+    assert.match(result, /ALTER TYPE s\.t OWNER TO owner;/);
+    assert.match(result, /GRANT USAGE ON TYPE s\.t TO r;/);
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateCreateViewSQL, generateViewSQL } from "../../lib/generators.js";
+import type { ViewInfo } from "../../lib/database.js";
+import { join, cols } from "./fixtures.js";
+
+describe("generateViewSQL", () => {
+  const view: ViewInfo = {
+    schema_name: "s",
+    view_name: "v",
+    definition: " SELECT t.id,\n    t.name\n   FROM s.t;",
+    owner: "owner",
+    comment: null,
+    is_updatable: true,
+    options: null,
+  };
+
+  it("should produce CREATE OR REPLACE VIEW without the trailing semicolon of pg_get_viewdef", () => {
+    const result = join(generateCreateViewSQL(view));
+    assert.match(result, /^CREATE OR REPLACE VIEW s\.v AS\n SELECT t\.id,/);
+    assert.ok(result.endsWith("FROM s.t;"));
+  });
+
+  it("should render view options in a WITH clause and check_option as a trailing clause", () => {
+    const result = join(
+      generateCreateViewSQL({
+        ...view,
+        options: ["security_invoker=true", "check_option=local", "security_barrier=true"],
+      }),
+    );
+    assert.match(result, /CREATE OR REPLACE VIEW s\.v WITH \(security_barrier=true, security_invoker=true\) AS/);
+    assert.ok(!result.includes("check_option="));
+    assert.ok(result.endsWith("  WITH LOCAL CHECK OPTION;"));
+  });
+
+  it("should include OWNER, COMMENTS and GRANTS sections", () => {
+    const result = generateViewSQL(
+      { ...view, comment: "A view" },
+      cols,
+      [{ grantor: "o", grantee: "r", privilege: "SELECT", is_grantable: false }],
+      [{ column_name: "name", grantor: "o", grantee: "r", privilege: "UPDATE", is_grantable: false }],
+    );
+    assert.match(result, /-- View: s\.v/);
+    assert.match(result, /ALTER VIEW s\.v OWNER TO owner;/);
+    assert.match(result, /COMMENT ON VIEW s\.v IS 'A view';/);
+    assert.match(result, /COMMENT ON COLUMN s\.v\.name IS 'The name';/);
+    assert.match(result, /REVOKE ALL ON TABLE s\.v FROM r;/);
+    assert.match(result, /GRANT SELECT ON TABLE s\.v TO r;/);
+    assert.match(result, /GRANT UPDATE \(name\) ON TABLE s\.v TO r;/);
+  });
+
+  it("should omit COMMENTS and GRANTS sections when empty", () => {
+    const result = generateViewSQL(view, [], [], []);
+    assert.ok(!result.includes("-- COMMENTS"));
+    assert.ok(!result.includes("-- GRANTS"));
+  });
+
+  it("should apply role mappings when provided", () => {
+    const result = generateViewSQL(
+      view,
+      [],
+      [{ grantor: "o", grantee: "visitor", privilege: "SELECT", is_grantable: false }],
+      [],
+      { visitor: ":DATABASE_GUEST" },
+    );
+    assert.match(result, /GRANT SELECT ON TABLE s\.v TO :DATABASE_GUEST;/);
+  });
+});